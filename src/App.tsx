@@ -13,6 +13,9 @@ import { LibraryPage } from './pages/LibraryPage';
 import { ReviewsPage } from './pages/ReviewsPage';
 import { AdminPage } from './pages/AdminPage';
 import { SettingsPage } from './pages/SettingsPage';
+import { ChallengePage } from './pages/ChallengePage';
+import { StatsPage } from './pages/StatsPage';
+import { ProfilePage } from './pages/ProfilePage';
 import { Toaster } from '@/components/ui/sonner';
 
 const queryClient = new QueryClient({
@@ -37,6 +40,7 @@ function App() {
               <Route path="search" element={<SearchPage />} />
               <Route path="book/*" element={<BookDetailPage />} />
               <Route path="author/*" element={<AuthorPage />} />
+              <Route path="u/:username" element={<ProfilePage />} />
               <Route
                 path="library"
                 element={
@@ -53,6 +57,22 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="challenge"
+                element={
+                  <ProtectedRoute>
+                    <ChallengePage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="stats"
+                element={
+                  <ProtectedRoute>
+                    <StatsPage />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="settings"
                 element={
@@ -44,6 +44,30 @@ class ApiClient {
     return this.request<import('./types').BookDetailsResponse>(url);
   }
 
+  async getBookReviews(
+    workKey: string,
+    params?: {
+      page?: number;
+      limit?: number;
+      sort?: import('./types').ReviewSort;
+      rating?: number | null;
+      hideSpoilers?: boolean;
+    }
+  ) {
+    const key = workKey.replace('/works/', '').replace(/^\//, '');
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.set('page', params.page.toString());
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.sort) searchParams.set('sort', params.sort);
+    if (params?.rating) searchParams.set('rating', params.rating.toString());
+    if (params?.hideSpoilers) searchParams.set('hideSpoilers', 'true');
+
+    return this.request<{
+      success: boolean;
+      data: { reviews: import('./types').ReviewWithUser[]; pagination: import('./types').Pagination };
+    }>(`/books/${key}/reviews?${searchParams.toString()}`);
+  }
+
   // Authors
   async getAuthorDetails(authorKey: string) {
     // Remove /authors/ prefix if present since the API route already has it
@@ -65,9 +89,10 @@ class ApiClient {
   }
 
   // Library
-  async getLibrary(params?: { status?: string; page?: number; limit?: number; sortBy?: string; sortOrder?: string }) {
+  async getLibrary(params?: { status?: string; shelfId?: string; page?: number; limit?: number; sortBy?: string; sortOrder?: string }) {
     const searchParams = new URLSearchParams();
     if (params?.status) searchParams.set('status', params.status);
+    if (params?.shelfId) searchParams.set('shelfId', params.shelfId);
     if (params?.page) searchParams.set('page', params.page.toString());
     if (params?.limit) searchParams.set('limit', params.limit.toString());
     if (params?.sortBy) searchParams.set('sortBy', params.sortBy);
@@ -92,6 +117,7 @@ class ApiClient {
     );
   }
 
+  // Moving to 'reading' opens a reading session and moving to 'read' closes it server-side
   async updateLibraryItem(id: string, status: import('./types').LibraryStatus) {
     return this.request<{ success: boolean; data: { item: import('./types').LibraryItem } }>(
       `/library/${id}`,
@@ -102,12 +128,157 @@ class ApiClient {
     );
   }
 
+  async updateReadingProgress(id: string, data: import('./types').ReadingProgressUpdate) {
+    return this.request<{ success: boolean; data: { item: import('./types').LibraryItem } }>(
+      `/library/${id}/progress`,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
   async removeFromLibrary(id: string) {
     return this.request<{ success: boolean; message: string }>(`/library/${id}`, {
       method: 'DELETE',
     });
   }
 
+  // Reading sessions
+  async getReadingSessions(itemId: string) {
+    return this.request<{ success: boolean; data: { sessions: import('./types').ReadingSession[] } }>(
+      `/library/${itemId}/sessions`
+    );
+  }
+
+  async createReadingSession(itemId: string, data: { startedAt?: string | null; finishedAt?: string | null } = {}) {
+    return this.request<{ success: boolean; data: { session: import('./types').ReadingSession } }>(
+      `/library/${itemId}/sessions`,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  async updateReadingSession(
+    itemId: string,
+    sessionId: string,
+    data: { startedAt?: string | null; finishedAt?: string | null }
+  ) {
+    return this.request<{ success: boolean; data: { session: import('./types').ReadingSession } }>(
+      `/library/${itemId}/sessions/${sessionId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  async deleteReadingSession(itemId: string, sessionId: string) {
+    return this.request<{ success: boolean; message: string }>(`/library/${itemId}/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Shelves
+  async getShelves() {
+    return this.request<{ success: boolean; data: { shelves: import('./types').Shelf[] } }>('/shelves');
+  }
+
+  async createShelf(name: string) {
+    return this.request<{ success: boolean; data: { shelf: import('./types').Shelf } }>('/shelves', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async updateShelf(id: string, data: { name?: string; isPublic?: boolean }) {
+    return this.request<{ success: boolean; data: { shelf: import('./types').Shelf } }>(`/shelves/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteShelf(id: string) {
+    return this.request<{ success: boolean; message: string }>(`/shelves/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async reorderShelves(shelfIds: string[]) {
+    return this.request<{ success: boolean; data: { shelves: import('./types').Shelf[] } }>('/shelves/order', {
+      method: 'PUT',
+      body: JSON.stringify({ shelfIds }),
+    });
+  }
+
+  async addToShelf(shelfId: string, libraryItemId: string) {
+    return this.request<{ success: boolean; message: string }>(`/shelves/${shelfId}/items`, {
+      method: 'POST',
+      body: JSON.stringify({ libraryItemId }),
+    });
+  }
+
+  async removeFromShelf(shelfId: string, libraryItemId: string) {
+    return this.request<{ success: boolean; message: string }>(`/shelves/${shelfId}/items/${libraryItemId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Users
+  async getUserProfile(username: string) {
+    return this.request<{ success: boolean; data: { profile: import('./types').UserProfile } }>(
+      `/users/${encodeURIComponent(username)}`
+    );
+  }
+
+  async followUser(username: string) {
+    return this.request<{ success: boolean; message: string }>(`/users/${encodeURIComponent(username)}/follow`, {
+      method: 'POST',
+    });
+  }
+
+  async unfollowUser(username: string) {
+    return this.request<{ success: boolean; message: string }>(`/users/${encodeURIComponent(username)}/follow`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getFollowers(username: string, page = 1, limit = 20) {
+    return this.request<{
+      success: boolean;
+      data: { users: import('./types').UserSummary[]; pagination: import('./types').Pagination };
+    }>(`/users/${encodeURIComponent(username)}/followers?page=${page}&limit=${limit}`);
+  }
+
+  async getFollowing(username: string, page = 1, limit = 20) {
+    return this.request<{
+      success: boolean;
+      data: { users: import('./types').UserSummary[]; pagination: import('./types').Pagination };
+    }>(`/users/${encodeURIComponent(username)}/following?page=${page}&limit=${limit}`);
+  }
+
+  // Activity
+  async getActivityFeed(page = 1, limit = 20) {
+    return this.request<{
+      success: boolean;
+      data: { activities: import('./types').ActivityItem[]; pagination: import('./types').Pagination };
+    }>(`/activity?page=${page}&limit=${limit}`);
+  }
+
+  // Reading goals
+  async getReadingGoal(year: number) {
+    return this.request<{ success: boolean; data: { goal: import('./types').ReadingGoal | null } }>(`/goals/${year}`);
+  }
+
+  async setReadingGoal(year: number, target: number) {
+    return this.request<{ success: boolean; data: { goal: import('./types').ReadingGoal } }>(`/goals/${year}`, {
+      method: 'PUT',
+      body: JSON.stringify({ target }),
+    });
+  }
+
   // Reviews
   async getMyReviews() {
     return this.request<{ success: boolean; data: { reviews: import('./types').Review[] } }>('/reviews/me');
@@ -133,6 +304,7 @@ class ApiClient {
     );
   }
 
+  // The server records the new version as a revision and may send approved reviews back to pending
   async updateReview(id: string, data: { rating?: number; content?: string; hasSpoilers?: boolean }) {
     return this.request<{ success: boolean; data: { review: import('./types').Review }; message: string }>(
       `/reviews/${id}`,
@@ -149,6 +321,71 @@ class ApiClient {
     });
   }
 
+  // Review drafts
+  async getReviewDrafts() {
+    return this.request<{ success: boolean; data: { drafts: import('./types').ReviewDraft[] } }>('/reviews/drafts');
+  }
+
+  async saveReviewDraft(draft: import('./types').ReviewDraft) {
+    const key = draft.workKey.replace('/works/', '').replace(/^\//, '');
+    return this.request<{ success: boolean; data: { draft: import('./types').ReviewDraft } }>(
+      `/reviews/drafts/${key}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(draft),
+      }
+    );
+  }
+
+  async deleteReviewDraft(workKey: string) {
+    const key = workKey.replace('/works/', '').replace(/^\//, '');
+    return this.request<{ success: boolean; message: string }>(`/reviews/drafts/${key}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async likeReview(id: string) {
+    return this.request<{ success: boolean; data: { likeCount: number } }>(`/reviews/${id}/like`, {
+      method: 'POST',
+    });
+  }
+
+  async unlikeReview(id: string) {
+    return this.request<{ success: boolean; data: { likeCount: number } }>(`/reviews/${id}/like`, {
+      method: 'DELETE',
+    });
+  }
+
+  async reportReview(id: string, data: { reason: import('./types').ReportReason; details?: string }) {
+    return this.request<{ success: boolean; message: string }>(`/reviews/${id}/report`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Review comments
+  async getReviewComments(reviewId: string) {
+    return this.request<{ success: boolean; data: { comments: import('./types').ReviewComment[] } }>(
+      `/reviews/${reviewId}/comments`
+    );
+  }
+
+  async createReviewComment(reviewId: string, data: { content: string; parentId?: string }) {
+    return this.request<{ success: boolean; data: { comment: import('./types').ReviewComment }; message: string }>(
+      `/reviews/${reviewId}/comments`,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  async deleteReviewComment(reviewId: string, commentId: string) {
+    return this.request<{ success: boolean; message: string }>(`/reviews/${reviewId}/comments/${commentId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Admin
   async getPendingReviews(page = 1, limit = 20) {
     return this.request<{
@@ -179,19 +416,171 @@ class ApiClient {
     );
   }
 
-  async rejectReview(id: string) {
+  async rejectReview(id: string, reason?: string) {
     return this.request<{ success: boolean; data: { review: import('./types').Review }; message: string }>(
       `/admin/reviews/${id}/action`,
       {
         method: 'POST',
-        body: JSON.stringify({ action: 'reject' }),
+        body: JSON.stringify({ action: 'reject', reason }),
       }
     );
   }
 
-  async reviewAction(id: string, action: 'approve' | 'reject') {
+  async bulkReviewAction(ids: string[], action: 'approve' | 'reject', reason?: string) {
+    return this.request<{ success: boolean; data: { updated: number }; message: string }>(
+      '/admin/reviews/bulk-action',
+      {
+        method: 'POST',
+        body: JSON.stringify({ ids, action, reason }),
+      }
+    );
+  }
+
+  async reviewAction(id: string, action: 'approve' | 'reject', reason?: string) {
     return this.request<{ success: boolean; data: { review: import('./types').Review }; message: string }>(
       `/admin/reviews/${id}/action`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ action, reason }),
+      }
+    );
+  }
+
+  async getReviewReports(page = 1, limit = 20) {
+    return this.request<{
+      success: boolean;
+      data: { reports: import('./types').ReportedReview[]; pagination: import('./types').Pagination };
+    }>(`/admin/reports?page=${page}&limit=${limit}`);
+  }
+
+  // 'hide' rejects the review with the given reason; both actions close every open report on it
+  async resolveReviewReports(reviewId: string, action: 'dismiss' | 'hide', reason?: string) {
+    return this.request<{ success: boolean; message: string }>(`/admin/reports/${reviewId}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ action, reason }),
+    });
+  }
+
+  // from and to are inclusive yyyy-MM-dd dates
+  async getAdminAnalytics(params: { from: string; to: string; interval: import('./types').AnalyticsInterval }) {
+    const searchParams = new URLSearchParams(params);
+    return this.request<{ success: boolean; data: import('./types').AdminAnalytics }>(
+      `/admin/analytics?${searchParams.toString()}`
+    );
+  }
+
+  async getAuditLog(params?: {
+    actorId?: string;
+    action?: string;
+    targetType?: string;
+    targetId?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params?.actorId) searchParams.set('actorId', params.actorId);
+    if (params?.action) searchParams.set('action', params.action);
+    if (params?.targetType) searchParams.set('targetType', params.targetType);
+    if (params?.targetId) searchParams.set('targetId', params.targetId);
+    if (params?.page) searchParams.set('page', params.page.toString());
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+
+    return this.request<{
+      success: boolean;
+      data: { entries: import('./types').AuditLogEntry[]; pagination: import('./types').Pagination };
+    }>(`/admin/audit-log?${searchParams.toString()}`);
+  }
+
+  async getAdminUserDetail(userId: string) {
+    return this.request<{ success: boolean; data: import('./types').AdminUserDetail }>(`/admin/users/${userId}`);
+  }
+
+  async getUserBanHistory(userId: string) {
+    return this.request<{ success: boolean; data: { history: import('./types').BanHistoryEntry[] } }>(
+      `/admin/users/${userId}/bans`
+    );
+  }
+
+  async getContentRules() {
+    return this.request<{ success: boolean; data: { rules: import('./types').ContentRule[] } }>('/admin/content-rules');
+  }
+
+  async createContentRule(rule: import('./types').ContentRuleInput) {
+    return this.request<{ success: boolean; data: { rule: import('./types').ContentRule } }>('/admin/content-rules', {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  }
+
+  async updateContentRule(id: string, rule: Partial<import('./types').ContentRuleInput>) {
+    return this.request<{ success: boolean; data: { rule: import('./types').ContentRule } }>(
+      `/admin/content-rules/${id}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(rule),
+      }
+    );
+  }
+
+  async deleteContentRule(id: string) {
+    return this.request<{ success: boolean }>(`/admin/content-rules/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getRejectionTemplates() {
+    return this.request<{ success: boolean; data: { templates: import('./types').RejectionTemplate[] } }>(
+      '/admin/rejection-templates'
+    );
+  }
+
+  async createRejectionTemplate(data: { label: string; message: string }) {
+    return this.request<{ success: boolean; data: { template: import('./types').RejectionTemplate } }>(
+      '/admin/rejection-templates',
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  async deleteRejectionTemplate(id: string) {
+    return this.request<{ success: boolean; message: string }>(`/admin/rejection-templates/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getModeratorNotes(reviewId: string) {
+    return this.request<{ success: boolean; data: { notes: import('./types').ModeratorNote[] } }>(
+      `/admin/reviews/${reviewId}/notes`
+    );
+  }
+
+  async addModeratorNote(reviewId: string, content: string) {
+    return this.request<{ success: boolean; data: { note: import('./types').ModeratorNote } }>(
+      `/admin/reviews/${reviewId}/notes`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ content }),
+      }
+    );
+  }
+
+  async getAdminComments(params?: { status?: string; page?: number; limit?: number }) {
+    const searchParams = new URLSearchParams();
+    if (params?.status) searchParams.set('status', params.status);
+    if (params?.page) searchParams.set('page', params.page.toString());
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+
+    return this.request<{
+      success: boolean;
+      data: { comments: import('./types').AdminComment[]; pagination: import('./types').Pagination };
+    }>(`/admin/comments?${searchParams.toString()}`);
+  }
+
+  async commentAction(id: string, action: 'approve' | 'reject') {
+    return this.request<{ success: boolean; data: { comment: import('./types').ReviewComment }; message: string }>(
+      `/admin/comments/${id}/action`,
       {
         method: 'POST',
         body: JSON.stringify({ action }),
@@ -199,10 +588,38 @@ class ApiClient {
     );
   }
 
+  async getReviewRevisions(id: string) {
+    return this.request<{ success: boolean; data: { revisions: import('./types').ReviewRevision[] } }>(
+      `/admin/reviews/${id}/revisions`
+    );
+  }
+
+  async getModerationSettings() {
+    return this.request<{ success: boolean; data: { settings: import('./types').ModerationSettings } }>(
+      '/admin/settings/moderation'
+    );
+  }
+
+  async updateModerationSettings(settings: Partial<import('./types').ModerationSettings>) {
+    return this.request<{ success: boolean; data: { settings: import('./types').ModerationSettings } }>(
+      '/admin/settings/moderation',
+      {
+        method: 'PUT',
+        body: JSON.stringify(settings),
+      }
+    );
+  }
+
   async getAdminStats() {
     return this.request<{
       success: boolean;
-      data: { pendingReviews: number; totalUsers: number; totalReviews: number };
+      data: {
+        pendingReviews: number;
+        pendingComments: number;
+        openReports: number;
+        totalUsers: number;
+        totalReviews: number;
+      };
     }>('/admin/stats');
   }
 }
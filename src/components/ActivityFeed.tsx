@@ -0,0 +1,123 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { api } from '../api';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { StarRating } from './StarRating';
+import { Image, Loader2, Users } from 'lucide-react';
+import type { ActivityItem } from '../types';
+
+const statusLabels = {
+  want_to_read: 'wants to read',
+  reading: 'started reading',
+  read: 'finished',
+};
+
+function describeActivity(activity: ActivityItem) {
+  switch (activity.type) {
+    case 'finished':
+      return 'finished';
+    case 'review':
+      return 'reviewed';
+    case 'status_change':
+      return activity.status ? statusLabels[activity.status] : 'updated';
+  }
+}
+
+export function ActivityFeed() {
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['activity'],
+    queryFn: ({ pageParam }) => api.getActivityFeed(pageParam),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => {
+      const { page, totalPages } = lastPage.data.pagination;
+      return page < totalPages ? page + 1 : undefined;
+    },
+  });
+
+  const activities = data?.pages.flatMap((page) => page.data.activities) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <div key={i} className="flex gap-3 p-3">
+            <Skeleton className="w-10 h-14 shrink-0" />
+            <div className="flex-1 space-y-2">
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-3 w-1/4" />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive py-8">Error loading activity. Please try again.</p>;
+  }
+
+  if (activities.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <Users className="h-12 w-12 mx-auto mb-3 opacity-50" />
+        <p>No activity yet. Follow other readers to see what they're reading.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="divide-y divide-border">
+        {activities.map((activity) => (
+          <div key={activity.id} className="flex gap-3 py-3 text-left">
+            <Link to={`/book${activity.workKey}`} className="shrink-0">
+              <div className="w-10 h-14 bg-muted rounded overflow-hidden">
+                {activity.coverId ? (
+                  <img
+                    src={`https://covers.openlibrary.org/b/id/${activity.coverId}-S.jpg`}
+                    alt={activity.bookTitle}
+                    className="w-full h-full object-cover"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                    <Image className="h-3 w-3" />
+                  </div>
+                )}
+              </div>
+            </Link>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm">
+                <Link to={`/u/${activity.user.username}`} className="font-medium hover:text-primary">
+                  {activity.user.name || activity.user.username}
+                </Link>{' '}
+                <span className="text-muted-foreground">{describeActivity(activity)}</span>{' '}
+                <Link to={`/book${activity.workKey}`} className="font-medium hover:text-primary">
+                  {activity.bookTitle}
+                </Link>
+              </p>
+              <div className="flex items-center gap-2 mt-1">
+                {activity.type === 'review' && activity.rating != null && (
+                  <StarRating rating={activity.rating} size="sm" />
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      {hasNextPage && (
+        <div className="text-center mt-4">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load More
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
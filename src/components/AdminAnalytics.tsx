@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { differenceInCalendarDays, format, parseISO, startOfDay, subDays } from 'date-fns';
+import { Link } from 'react-router-dom';
+import type { DateRange } from 'react-day-picker';
+import { api } from '../api';
+import { BarChart } from './BarChart';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarDays, Image } from 'lucide-react';
+import type { AnalyticsBook, AnalyticsBucket, AnalyticsInterval } from '../types';
+
+const presets = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '12 months', days: 365 },
+];
+
+function lastDays(days: number): DateRange {
+  const today = startOfDay(new Date());
+  return { from: subDays(today, days - 1), to: today };
+}
+
+// Keep charts to a readable number of bars whatever the range
+function intervalFor(from: Date, to: Date): AnalyticsInterval {
+  const days = differenceInCalendarDays(to, from) + 1;
+  if (days <= 31) return 'day';
+  if (days <= 182) return 'week';
+  return 'month';
+}
+
+function bucketLabel(date: string, interval: AnalyticsInterval) {
+  return format(parseISO(date), interval === 'month' ? 'MMM yy' : 'MMM d');
+}
+
+function approvalRate(approved: number, rejected: number) {
+  const moderated = approved + rejected;
+  return moderated > 0 ? Math.round((approved / moderated) * 100) : null;
+}
+
+export function AnalyticsPanel() {
+  const [range, setRange] = useState<DateRange | undefined>(() => lastDays(30));
+
+  const from = range?.from;
+  const to = range?.to ?? range?.from;
+  const interval = from && to ? intervalFor(from, to) : 'day';
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['adminAnalytics', from?.toISOString(), to?.toISOString()],
+    queryFn: () =>
+      api.getAdminAnalytics({ from: format(from!, 'yyyy-MM-dd'), to: format(to!, 'yyyy-MM-dd'), interval }),
+    enabled: !!from && !!to,
+  });
+
+  const analytics = data?.data;
+  const series = analytics?.series ?? [];
+
+  const chart = (value: (bucket: AnalyticsBucket) => number) =>
+    series.map((bucket) => ({ label: bucketLabel(bucket.date, analytics!.interval), count: value(bucket) }));
+
+  const totals = series.reduce(
+    (sum, bucket) => ({
+      signups: sum.signups + bucket.signups,
+      reviewsSubmitted: sum.reviewsSubmitted + bucket.reviewsSubmitted,
+      reviewsApproved: sum.reviewsApproved + bucket.reviewsApproved,
+      reviewsRejected: sum.reviewsRejected + bucket.reviewsRejected,
+    }),
+    { signups: 0, reviewsSubmitted: 0, reviewsApproved: 0, reviewsRejected: 0 }
+  );
+  const overallApprovalRate = approvalRate(totals.reviewsApproved, totals.reviewsRejected);
+  const dense = series.length > 14;
+
+  return (
+    <div className="space-y-6">
+      {/* Date range */}
+      <div className="flex flex-wrap items-center gap-2">
+        {presets.map((preset) => (
+          <Button key={preset.days} variant="outline" size="sm" onClick={() => setRange(lastDays(preset.days))}>
+            {preset.label}
+          </Button>
+        ))}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="ml-auto justify-start font-normal">
+              <CalendarDays className="h-4 w-4 mr-2 text-muted-foreground" />
+              {from ? (
+                <>
+                  {format(from, 'MMM d, yyyy')}
+                  {to && to.getTime() !== from.getTime() && <> – {format(to, 'MMM d, yyyy')}</>}
+                </>
+              ) : (
+                <span className="text-muted-foreground">Pick a date range</span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="end">
+            <Calendar
+              mode="range"
+              selected={range}
+              onSelect={setRange}
+              defaultMonth={from}
+              numberOfMonths={2}
+              disabled={{ after: new Date() }}
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {/* Headline numbers */}
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+        <Stat label="Signups" value={analytics && totals.signups} />
+        <Stat label="Reviews submitted" value={analytics && totals.reviewsSubmitted} />
+        <Stat label="Approval rate" value={analytics && (overallApprovalRate === null ? '—' : `${overallApprovalRate}%`)} />
+        <Stat
+          label="Median turnaround"
+          value={
+            analytics &&
+            (analytics.summary.medianTurnaroundHours === null
+              ? '—'
+              : `${analytics.summary.medianTurnaroundHours.toFixed(1)}h`)
+          }
+        />
+        <Stat label="Avg. daily active" value={analytics && Math.round(analytics.summary.averageDailyActiveUsers)} />
+      </div>
+
+      {isLoading ? (
+        <div className="grid md:grid-cols-2 gap-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-52 w-full" />
+          ))}
+        </div>
+      ) : (
+        analytics && (
+          <>
+            <div className="grid md:grid-cols-2 gap-4">
+              <ChartCard title="Signups">
+                <BarChart data={chart((b) => b.signups)} showValues={!dense} />
+              </ChartCard>
+              <ChartCard title="Reviews submitted">
+                <BarChart data={chart((b) => b.reviewsSubmitted)} showValues={!dense} />
+              </ChartCard>
+              <ChartCard title="Approval rate (%)">
+                <BarChart
+                  data={chart((b) => approvalRate(b.reviewsApproved, b.reviewsRejected) ?? 0)}
+                  showValues={!dense}
+                />
+              </ChartCard>
+              <ChartCard title="Median moderation turnaround (hours)">
+                <BarChart
+                  data={chart((b) => Math.round((b.medianTurnaroundHours ?? 0) * 10) / 10)}
+                  showValues={!dense}
+                />
+              </ChartCard>
+              <ChartCard title={analytics.interval === 'day' ? 'Daily active users' : 'Daily active users (average)'}>
+                <BarChart data={chart((b) => Math.round(b.activeUsers))} showValues={!dense} />
+              </ChartCard>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <BookList title="Most reviewed" books={analytics.mostReviewed} unit="review" />
+              <BookList title="Most shelved" books={analytics.mostShelved} unit="shelving" />
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number | string | undefined }) {
+  return (
+    <div className="rounded-lg border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      {value === undefined ? <Skeleton className="h-7 w-12 mt-1" /> : <p className="text-2xl font-bold">{value}</p>}
+    </div>
+  );
+}
+
+function ChartCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+function BookList({ title, books, unit }: { title: string; books: AnalyticsBook[]; unit: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {books.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">Nothing in this range</p>
+        ) : (
+          <ol className="space-y-2">
+            {books.map((book, index) => (
+              <li key={book.workKey} className="flex items-center gap-3">
+                <span className="w-4 text-sm text-muted-foreground text-right">{index + 1}</span>
+                <div className="w-7 h-10 shrink-0 bg-muted rounded overflow-hidden">
+                  {book.coverId ? (
+                    <img
+                      src={`https://covers.openlibrary.org/b/id/${book.coverId}-S.jpg`}
+                      alt={book.title}
+                      className="w-full h-full object-cover"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                      <Image className="h-3 w-3" />
+                    </div>
+                  )}
+                </div>
+                <Link
+                  to={`/book${book.workKey}`}
+                  className="flex-1 min-w-0 text-sm truncate hover:text-primary transition-colors"
+                >
+                  {book.title}
+                </Link>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {book.count} {unit}
+                  {book.count !== 1 ? 's' : ''}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { api } from '../api';
+import { admin } from '../lib/auth-client';
+import { auditActionLabels, fetchAllAuditLogEntries, toAuditLogCsv } from '@/lib/audit-log';
+import { downloadFile } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronLeft, ChevronRight, FileSpreadsheet, Loader2, ScrollText } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AuditAction, AuditLogEntry, AuditTargetType } from '../types';
+
+const PAGE_SIZE = 25;
+const ALL = 'all';
+
+function actionVariant(action: AuditAction) {
+  if (action === 'user.remove' || action === 'user.ban' || action.endsWith('.reject') || action === 'report.hide') {
+    return 'destructive' as const;
+  }
+  return 'secondary' as const;
+}
+
+export function AuditLogPanel() {
+  const [actorId, setActorId] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [page, setPage] = useState(1);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filters = {
+    actorId: actorId === ALL ? undefined : actorId,
+    action: action === ALL ? undefined : action,
+  };
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['auditLog', filters.actorId, filters.action, page],
+    queryFn: () => api.getAuditLog({ ...filters, page, limit: PAGE_SIZE }),
+  });
+
+  const { data: adminsData } = useQuery({
+    queryKey: ['auditLogActors'],
+    queryFn: async () => {
+      const result = await admin.listUsers({
+        query: { limit: 100, filterField: 'role', filterValue: 'admin', filterOperator: 'eq' },
+      });
+      return result.data;
+    },
+  });
+
+  const entries = data?.data.entries ?? [];
+  const pagination = data?.data.pagination;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const all = await fetchAllAuditLogEntries(filters);
+      downloadFile(toAuditLogCsv(all), `reprint-audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`, 'text/csv');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={actorId}
+          onValueChange={(v) => {
+            setActorId(v);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Admin" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All admins</SelectItem>
+            {adminsData?.users.map((user) => (
+              <SelectItem key={user.id} value={user.id}>
+                {user.name || user.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={action}
+          onValueChange={(v) => {
+            setAction(v);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {(Object.keys(auditActionLabels) as AuditAction[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {auditActionLabels[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+          onClick={handleExport}
+          disabled={isExporting || entries.length === 0}
+        >
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSpreadsheet className="mr-2 h-4 w-4" />}
+          Export CSV
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="space-y-2">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      )}
+
+      {data && entries.length === 0 && (
+        <div className="text-center py-12 text-muted-foreground">
+          <p>No matching actions</p>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Admin</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Reason</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                <TableCell className="font-medium">{entry.actorName}</TableCell>
+                <TableCell>
+                  <Badge variant={actionVariant(entry.action)}>{auditActionLabels[entry.action] ?? entry.action}</Badge>
+                </TableCell>
+                <TableCell className="max-w-56 truncate">
+                  <span className="text-muted-foreground capitalize">{entry.targetType}:</span> {entry.targetLabel}
+                </TableCell>
+                <TableCell className="max-w-64 whitespace-normal text-muted-foreground">{entry.reason || '—'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {pagination.page} of {pagination.totalPages} · {pagination.total} actions
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pagination.totalPages}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AuditLogDialog({ targetType, targetId }: { targetType: AuditTargetType; targetId: string }) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost">
+          <ScrollText className="h-4 w-4 mr-2" />
+          Log
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Audit log</DialogTitle>
+          <DialogDescription>Every admin action taken on this {targetType}.</DialogDescription>
+        </DialogHeader>
+        <AuditTrail targetType={targetType} targetId={targetId} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function AuditTrail({ targetType, targetId }: { targetType: AuditTargetType; targetId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['auditLog', 'target', targetType, targetId],
+    queryFn: () => api.getAuditLog({ targetType, targetId, limit: 50 }),
+  });
+
+  const entries = data?.data.entries ?? [];
+
+  if (isLoading) return <Skeleton className="h-16 w-full" />;
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No actions recorded.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry) => (
+        <AuditEntryItem key={entry.id} entry={entry} />
+      ))}
+    </div>
+  );
+}
+
+function AuditEntryItem({ entry }: { entry: AuditLogEntry }) {
+  return (
+    <div className="p-3 rounded-md bg-secondary/50">
+      <Badge variant={actionVariant(entry.action)}>{auditActionLabels[entry.action] ?? entry.action}</Badge>
+      {entry.reason && <p className="text-sm whitespace-pre-wrap mt-2">{entry.reason}</p>}
+      <p className="text-xs text-muted-foreground mt-1">
+        {entry.actorName} · {new Date(entry.createdAt).toLocaleString()}
+      </p>
+    </div>
+  );
+}
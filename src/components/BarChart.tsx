@@ -0,0 +1,36 @@
+import { cn } from '@/lib/utils';
+
+interface BarChartProps {
+  data: Array<{ label: string; count: number }>;
+  height?: number;
+  // Value labels above each bar; turn off for dense series
+  showValues?: boolean;
+  className?: string;
+}
+
+export function BarChart({ data, height = 160, showValues = true, className }: BarChartProps) {
+  const max = Math.max(1, ...data.map((d) => d.count));
+
+  return (
+    <div className={cn('flex gap-1.5 pt-5', className)} style={{ height }}>
+      {data.map((d, i) => (
+        <div key={`${d.label}-${i}`} className="flex-1 flex flex-col items-center min-w-0">
+          <div className="flex-1 w-full flex items-end">
+            <div
+              className="relative w-full rounded-t bg-primary/80 hover:bg-primary transition-colors"
+              style={{ height: `${(d.count / max) * 100}%`, minHeight: d.count > 0 ? 4 : 0 }}
+              title={`${d.label}: ${d.count}`}
+            >
+              {showValues && d.count > 0 && (
+                <span className="absolute -top-5 inset-x-0 text-center text-xs text-muted-foreground">
+                  {d.count}
+                </span>
+              )}
+            </div>
+          </div>
+          <span className="text-xs text-muted-foreground mt-1 truncate w-full text-center">{d.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
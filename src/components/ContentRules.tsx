@@ -0,0 +1,490 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { evaluateRules, isValidPattern, matchSnippet, ruleTypeLabels } from '@/lib/content-filter';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Filter, Loader2, Pencil, Plus, ShieldAlert, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ContentRule, ContentRuleInput, ContentRuleType, RuleMatch } from '../types';
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  type: ContentRuleType;
+  enabled: boolean;
+  words: string;
+  pattern: string;
+  minLength: string;
+  maxAccountAgeDays: string;
+}
+
+const emptyDraft: RuleDraft = {
+  name: '',
+  type: 'banned_words',
+  enabled: true,
+  words: '',
+  pattern: '',
+  minLength: '50',
+  maxAccountAgeDays: '7',
+};
+
+function toDraft(rule: ContentRule): RuleDraft {
+  return {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    enabled: rule.enabled,
+    words: (rule.words ?? []).join('\n'),
+    pattern: rule.pattern ?? '',
+    minLength: String(rule.minLength ?? emptyDraft.minLength),
+    maxAccountAgeDays: String(rule.maxAccountAgeDays ?? emptyDraft.maxAccountAgeDays),
+  };
+}
+
+// Only the field for the chosen type is sent, so switching types doesn't leave stale config behind
+function toRuleInput(draft: RuleDraft): ContentRuleInput {
+  const input: ContentRuleInput = { name: draft.name.trim(), type: draft.type, enabled: draft.enabled };
+  switch (draft.type) {
+    case 'banned_words':
+      input.words = draft.words.split(/[\n,]/).map((w) => w.trim()).filter(Boolean);
+      break;
+    case 'regex':
+      input.pattern = draft.pattern;
+      break;
+    case 'min_length':
+      input.minLength = parseInt(draft.minLength, 10);
+      break;
+    case 'new_account':
+      input.maxAccountAgeDays = parseInt(draft.maxAccountAgeDays, 10);
+      break;
+  }
+  return input;
+}
+
+function draftError(draft: RuleDraft) {
+  if (!draft.name.trim()) return 'Give the rule a name';
+  const input = toRuleInput(draft);
+  if (draft.type === 'banned_words' && input.words!.length === 0) return 'Add at least one word';
+  if (draft.type === 'regex' && (!draft.pattern || !isValidPattern(draft.pattern))) return 'Enter a valid pattern';
+  if (draft.type === 'min_length' && !(input.minLength! > 0)) return 'Enter a length above zero';
+  if (draft.type === 'new_account' && !(input.maxAccountAgeDays! > 0)) return 'Enter a number of days above zero';
+  return null;
+}
+
+function describeRule(rule: ContentRule) {
+  switch (rule.type) {
+    case 'banned_words':
+      return (rule.words ?? []).join(', ');
+    case 'regex':
+      return `/${rule.pattern}/i`;
+    case 'links':
+      return 'Any URL or web address';
+    case 'min_length':
+      return `Shorter than ${rule.minLength} characters`;
+    case 'new_account':
+      return `Account younger than ${rule.maxAccountAgeDays} days`;
+  }
+}
+
+export function RuleMatches({ content, matches }: { content: string; matches: RuleMatch[] }) {
+  return (
+    <div className="space-y-2">
+      {matches.map((match) => (
+        <div key={match.ruleId} className="text-sm">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-4 w-4 text-yellow-500 shrink-0" />
+            <span className="font-medium">{match.ruleName}</span>
+            <Badge variant="outline" className="text-xs">
+              {ruleTypeLabels[match.type]}
+            </Badge>
+            {match.ranges.length > 1 && (
+              <span className="text-xs text-muted-foreground">{match.ranges.length} matches</span>
+            )}
+          </div>
+          {match.ranges.slice(0, 3).map((range) => {
+            const { before, match: text, after } = matchSnippet(content, range);
+            return (
+              <p key={range[0]} className="ml-6 mt-1 text-xs text-muted-foreground whitespace-pre-wrap break-words">
+                {before}
+                <mark className="bg-yellow-300/60 text-foreground rounded-sm px-0.5">{text}</mark>
+                {after}
+              </p>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ContentRulesDialog() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [sample, setSample] = useState('');
+  const [sampleAccountAge, setSampleAccountAge] = useState('');
+  const [testResult, setTestResult] = useState<{ content: string; matches: RuleMatch[] } | null>(null);
+  const [trustedThreshold, setTrustedThreshold] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['contentRules'],
+    queryFn: () => api.getContentRules(),
+  });
+
+  const { data: settingsData } = useQuery({
+    queryKey: ['moderationSettings'],
+    queryFn: () => api.getModerationSettings(),
+  });
+
+  const settings = settingsData?.data.settings;
+  const savedThreshold = settings?.trustedMinApprovedReviews.toString() ?? '3';
+  const currentThreshold = trustedThreshold ?? savedThreshold;
+
+  const invalidateRules = () => queryClient.invalidateQueries({ queryKey: ['contentRules'] });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: (rule: RuleDraft) =>
+      rule.id ? api.updateContentRule(rule.id, toRuleInput(rule)) : api.createContentRule(toRuleInput(rule)),
+    onSuccess: () => {
+      setDraft(null);
+      invalidateRules();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: string; enabled: boolean }) => api.updateContentRule(id, { enabled }),
+    onSuccess: invalidateRules,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (id: string) => api.deleteContentRule(id),
+    onSuccess: invalidateRules,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (values: { autoApproveTrusted?: boolean; trustedMinApprovedReviews?: number }) =>
+      api.updateModerationSettings(values),
+    onSuccess: () => {
+      setTrustedThreshold(null);
+      queryClient.invalidateQueries({ queryKey: ['moderationSettings'] });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const rules = data?.data.rules ?? [];
+  const error = draft && draftError(draft);
+
+  // Runs on demand rather than per keystroke, since an admin's pattern could backtrack badly.
+  // The rule being edited is included so changes can be tried before saving.
+  const runTest = () => {
+    const testRules =
+      draft && !error
+        ? [...rules.filter((r) => r.id !== draft.id), { ...toRuleInput(draft), id: draft.id ?? 'draft' }]
+        : rules;
+    const accountAgeDays = sampleAccountAge ? parseInt(sampleAccountAge, 10) : undefined;
+    setTestResult({ content: sample, matches: evaluateRules(testRules, { content: sample, accountAgeDays }) });
+  };
+
+  const thresholdValue = parseInt(currentThreshold, 10);
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setDraft(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Filter className="h-4 w-4 mr-2" />
+          Content Filters
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Content filters</DialogTitle>
+          <DialogDescription>
+            New reviews are checked against these rules. Matches stay in the queue, flagged with the rule they tripped.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Auto-approval */}
+        <div className="p-3 border rounded-md space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="auto-approve-trusted">Auto-approve trusted reviewers</Label>
+              <p className="text-xs text-muted-foreground">
+                Reviews that trip no rule are published straight away for authors with enough approved reviews.
+              </p>
+            </div>
+            <Switch
+              id="auto-approve-trusted"
+              checked={settings?.autoApproveTrusted ?? false}
+              onCheckedChange={(checked) => settingsMutation.mutate({ autoApproveTrusted: checked })}
+              disabled={!settings || settingsMutation.isPending}
+            />
+          </div>
+          {settings?.autoApproveTrusted && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                settingsMutation.mutate({ trustedMinApprovedReviews: thresholdValue });
+              }}
+              className="flex items-end gap-2"
+            >
+              <div className="space-y-1">
+                <Label htmlFor="trusted-threshold" className="text-xs">
+                  Approved reviews needed
+                </Label>
+                <Input
+                  id="trusted-threshold"
+                  type="number"
+                  min={1}
+                  value={currentThreshold}
+                  onChange={(e) => setTrustedThreshold(e.target.value)}
+                  className="w-24 h-8"
+                />
+              </div>
+              {currentThreshold !== savedThreshold && (
+                <Button type="submit" size="sm" disabled={!(thresholdValue >= 1) || settingsMutation.isPending}>
+                  Save
+                </Button>
+              )}
+            </form>
+          )}
+        </div>
+
+        {/* Rules */}
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No rules yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center gap-3 p-3 border rounded-md">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(enabled) => toggleRuleMutation.mutate({ id: rule.id, enabled })}
+                  aria-label={`Enable ${rule.name}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium truncate">{rule.name}</p>
+                    <Badge variant="outline" className="text-xs">
+                      {ruleTypeLabels[rule.type]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setDraft(toDraft(rule))}
+                  aria-label={`Edit ${rule.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      disabled={deleteRuleMutation.isPending}
+                      aria-label={`Delete ${rule.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete "{rule.name}"?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        New reviews will no longer be checked against this rule. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteRuleMutation.mutate(rule.id)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Editor */}
+        {draft ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!error) saveRuleMutation.mutate(draft);
+            }}
+            className="space-y-3 pt-4 border-t"
+          >
+            <Label>{draft.id ? 'Edit rule' : 'New rule'}</Label>
+            <div className="flex gap-2">
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Rule name, e.g. Slurs"
+                maxLength={60}
+              />
+              <Select value={draft.type} onValueChange={(v) => setDraft({ ...draft, type: v as ContentRuleType })}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ruleTypeLabels) as ContentRuleType[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {ruleTypeLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draft.type === 'banned_words' && (
+              <Textarea
+                value={draft.words}
+                onChange={(e) => setDraft({ ...draft, words: e.target.value })}
+                placeholder="One word or phrase per line"
+                rows={4}
+              />
+            )}
+            {draft.type === 'regex' && (
+              <Input
+                value={draft.pattern}
+                onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                placeholder="e.g. (buy|cheap)\s+followers"
+                className="font-mono"
+                aria-invalid={!!draft.pattern && !isValidPattern(draft.pattern)}
+              />
+            )}
+            {draft.type === 'links' && (
+              <p className="text-xs text-muted-foreground">Flags any review that contains a URL or web address.</p>
+            )}
+            {draft.type === 'min_length' && (
+              <div className="flex items-center gap-2 text-sm">
+                Flag reviews shorter than
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.minLength}
+                  onChange={(e) => setDraft({ ...draft, minLength: e.target.value })}
+                  className="w-24 h-8"
+                />
+                characters
+              </div>
+            )}
+            {draft.type === 'new_account' && (
+              <div className="flex items-center gap-2 text-sm">
+                Flag reviews from accounts younger than
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.maxAccountAgeDays}
+                  onChange={(e) => setDraft({ ...draft, maxAccountAgeDays: e.target.value })}
+                  className="w-24 h-8"
+                />
+                days
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-destructive">{error}</p>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" size="sm" disabled={!!error || saveRuleMutation.isPending}>
+                  {saveRuleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Rule
+                </Button>
+              </div>
+            </div>
+          </form>
+        ) : (
+          <div className="flex justify-end">
+            <Button size="sm" variant="outline" onClick={() => setDraft(emptyDraft)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        )}
+
+        {/* Tester */}
+        <div className="space-y-2 pt-4 border-t">
+          <Label htmlFor="rule-sample">Try it out</Label>
+          <Textarea
+            id="rule-sample"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder="Paste a sample review, then test it to see which rules it trips"
+            rows={4}
+          />
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            Author account age
+            <Input
+              type="number"
+              min={0}
+              value={sampleAccountAge}
+              onChange={(e) => setSampleAccountAge(e.target.value)}
+              placeholder="days"
+              className="w-20 h-7 text-xs"
+            />
+            <Button size="sm" variant="outline" className="ml-auto" onClick={runTest} disabled={!sample.trim()}>
+              Test Sample
+            </Button>
+          </div>
+          {testResult &&
+            (testResult.matches.length > 0 ? (
+              <RuleMatches content={testResult.content} matches={testResult.matches} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No rules triggered.
+                {settings?.autoApproveTrusted && ' A trusted author would be published straight away.'}
+              </p>
+            ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { api } from '../api';
+import { toGoodreadsCsv } from '@/lib/goodreads';
+import { fetchAllLibraryItems } from '@/lib/library';
+import { downloadFile } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Download, FileJson, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+async function fetchExportData() {
+  const [items, reviewsResponse, shelvesResponse] = await Promise.all([
+    fetchAllLibraryItems(),
+    api.getMyReviews(),
+    api.getShelves(),
+  ]);
+  return {
+    items,
+    reviews: reviewsResponse.data.reviews,
+    shelves: shelvesResponse.data.shelves,
+  };
+}
+
+export function DataExportSection() {
+  const [exporting, setExporting] = useState<'json' | 'csv' | null>(null);
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    setExporting(format);
+    try {
+      const { items, reviews, shelves } = await fetchExportData();
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === 'json') {
+        const archive = { exportedAt: new Date().toISOString(), library: items, reviews, shelves };
+        downloadFile(JSON.stringify(archive, null, 2), `reprint-export-${date}.json`, 'application/json');
+      } else {
+        downloadFile(toGoodreadsCsv(items, reviews, shelves), `reprint-goodreads-${date}.csv`, 'text/csv');
+      }
+      toast.success(`Exported ${items.length} books and ${reviews.length} reviews`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export data');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5" />
+          Export Your Data
+        </CardTitle>
+        <CardDescription>
+          Download your full library and reviews, including reading status, dates, ratings, review text and spoiler flags.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm text-muted-foreground space-y-1 mb-4">
+        <p><span className="font-medium text-foreground">JSON archive</span> — everything RePrint stores for your library, reviews and shelves.</p>
+        <p><span className="font-medium text-foreground">Goodreads CSV</span> — the Goodreads export layout, ready to import into Goodreads or a spreadsheet.</p>
+      </CardContent>
+      <CardFooter className="bg-muted/50 px-6 py-4 flex flex-wrap gap-2">
+        <Button onClick={() => handleExport('json')} disabled={!!exporting}>
+          {exporting === 'json' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileJson className="mr-2 h-4 w-4" />}
+          Export JSON
+        </Button>
+        <Button variant="outline" onClick={() => handleExport('csv')} disabled={!!exporting}>
+          {exporting === 'csv' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSpreadsheet className="mr-2 h-4 w-4" />}
+          Export Goodreads CSV
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
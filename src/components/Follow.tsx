@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ChevronLeft, ChevronRight, UserCheck, UserPlus } from 'lucide-react';
+
+export function FollowButton({ username, isFollowing }: { username: string; isFollowing: boolean }) {
+  const queryClient = useQueryClient();
+
+  const followMutation = useMutation({
+    mutationFn: () => (isFollowing ? api.unfollowUser(username) : api.followUser(username)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile', username] });
+      queryClient.invalidateQueries({ queryKey: ['follows', username] });
+      queryClient.invalidateQueries({ queryKey: ['activity'] });
+    },
+  });
+
+  return (
+    <Button
+      variant={isFollowing ? 'outline' : 'default'}
+      onClick={() => followMutation.mutate()}
+      disabled={followMutation.isPending}
+    >
+      {isFollowing ? (
+        <>
+          <UserCheck className="h-4 w-4 mr-2" />
+          Following
+        </>
+      ) : (
+        <>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Follow
+        </>
+      )}
+    </Button>
+  );
+}
+
+export function FollowListDialog({
+  username,
+  kind,
+  count,
+}: {
+  username: string;
+  kind: 'followers' | 'following';
+  count: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['follows', username, kind, page],
+    queryFn: () =>
+      kind === 'followers' ? api.getFollowers(username, page) : api.getFollowing(username, page),
+    enabled: open,
+  });
+
+  const pagination = data?.data.pagination;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setPage(1);
+      }}
+    >
+      <DialogTrigger asChild>
+        <button type="button" className="hover:underline">
+          <span className="font-semibold text-foreground">{count.toLocaleString()}</span>{' '}
+          {kind === 'followers' ? `follower${count !== 1 ? 's' : ''}` : 'following'}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{kind === 'followers' ? 'Followers' : 'Following'}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : data && data.data.users.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {kind === 'followers' ? 'No followers yet.' : 'Not following anyone yet.'}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {data?.data.users.map((user) => (
+              <Link
+                key={user.id}
+                to={`/u/${user.username}`}
+                onClick={() => setOpen(false)}
+                className="flex items-center gap-3 p-2 rounded-md hover:bg-muted"
+              >
+                <div className="h-8 w-8 rounded-full bg-secondary flex items-center justify-center text-sm font-semibold">
+                  {(user.name || user.username).charAt(0).toUpperCase()}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{user.name || user.username}</p>
+                  <p className="text-xs text-muted-foreground">@{user.username}</p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {pagination.page} of {pagination.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,461 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { parseGoodreadsCsv, type GoodreadsRow } from '@/lib/goodreads';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StarRating } from './StarRating';
+import { AlertCircle, CheckCircle, Loader2, Search, Upload, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/use-auth';
+import type { Book } from '../types';
+
+// Progress is saved per account so a resume can never land in someone else's library
+function storageKey(userId: string) {
+  return `reprint:goodreads-import:${userId}`;
+}
+
+const statusLabels = {
+  want_to_read: 'Want to Read',
+  reading: 'Currently Reading',
+  read: 'Read',
+};
+
+interface ImportRow extends GoodreadsRow {
+  key: string;
+  include: boolean;
+  match: Book | null;
+  matchState: 'pending' | 'matched' | 'unmatched' | 'error';
+  // Each step is recorded so a resumed import never repeats work that already succeeded
+  libraryItemId?: string;
+  reviewed?: boolean;
+  importState: 'pending' | 'done' | 'error';
+  error?: string;
+}
+
+function loadSavedRows(userId: string | undefined): ImportRow[] {
+  if (!userId) return [];
+  try {
+    const saved = localStorage.getItem(storageKey(userId));
+    return saved ? (JSON.parse(saved) as ImportRow[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Goodreads appends series info like "(The Hunger Games, #1)" which hurts title search
+function searchQueryFor(row: GoodreadsRow) {
+  const title = row.title.replace(/\s*\([^)]*#\d+[^)]*\)\s*$/, '');
+  return `${title} ${row.author}`.trim();
+}
+
+async function findMatch(row: GoodreadsRow) {
+  if (row.isbn) {
+    const byIsbn = await api.searchBooks(row.isbn, 1, 1);
+    if (byIsbn.data.books[0]) return byIsbn.data.books[0];
+  }
+  const byTitle = await api.searchBooks(searchQueryFor(row), 1, 1);
+  return byTitle.data.books[0] ?? null;
+}
+
+export function GoodreadsImportSection() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [rows, setRows] = useState<ImportRow[]>(() => loadSavedRows(userId));
+  const [phase, setPhase] = useState<'idle' | 'matching' | 'importing'>('idle');
+  const cancelRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+
+  // Switch to the new account's saved progress if the signed-in user changes under us
+  const [rowsOwner, setRowsOwner] = useState(userId);
+  if (rowsOwner !== userId) {
+    setRowsOwner(userId);
+    setRows(loadSavedRows(userId));
+  }
+
+  useEffect(() => {
+    if (!userId) return;
+    if (rows.length > 0) {
+      localStorage.setItem(storageKey(userId), JSON.stringify(rows));
+    } else {
+      localStorage.removeItem(storageKey(userId));
+    }
+  }, [rows, userId]);
+
+  const updateRow = (key: string, changes: Partial<ImportRow>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const runMatching = async (pending: ImportRow[]) => {
+    setPhase('matching');
+    cancelRef.current = false;
+    for (const row of pending) {
+      if (cancelRef.current) break;
+      try {
+        const match = await findMatch(row);
+        updateRow(row.key, { match, matchState: match ? 'matched' : 'unmatched', include: !!match });
+      } catch (error) {
+        updateRow(row.key, {
+          matchState: 'error',
+          include: false,
+          error: error instanceof Error ? error.message : 'Search failed',
+        });
+      }
+    }
+    setPhase('idle');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseGoodreadsCsv(await file.text());
+      if (parsed.length === 0) {
+        toast.error('No books found in that file');
+        return;
+      }
+      const next: ImportRow[] = parsed.map((row, i) => ({
+        ...row,
+        key: `${row.goodreadsId || 'row'}-${i}`,
+        include: false,
+        match: null,
+        matchState: 'pending',
+        importState: 'pending',
+      }));
+      setRows(next);
+      runMatching(next);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read CSV file');
+    }
+  };
+
+  const runImport = async () => {
+    setPhase('importing');
+    cancelRef.current = false;
+    const queue = rows.filter((row) => row.include && row.match && row.importState !== 'done');
+
+    for (const row of queue) {
+      if (cancelRef.current) break;
+      const match = row.match!;
+      let libraryItemId = row.libraryItemId;
+      let reviewed = row.reviewed;
+      try {
+        if (!libraryItemId) {
+          const { data } = await api.addToLibrary({
+            workKey: match.workKey,
+            title: match.title,
+            authorName: match.authors[0] ?? row.author,
+            coverId: match.coverId,
+            status: row.status,
+          });
+          libraryItemId = data.item.id;
+          if (row.status === 'read' && row.dateRead) {
+            await api.createReadingSession(libraryItemId, { finishedAt: row.dateRead });
+          }
+        }
+        if (row.rating > 0 && !reviewed) {
+          await api.createReview({
+            workKey: match.workKey,
+            bookTitle: match.title,
+            rating: row.rating,
+            content: row.review,
+            hasSpoilers: row.hasSpoilers,
+          });
+          reviewed = true;
+        }
+        updateRow(row.key, { libraryItemId, reviewed, importState: 'done', error: undefined });
+      } catch (error) {
+        updateRow(row.key, {
+          libraryItemId,
+          reviewed,
+          importState: 'error',
+          error: error instanceof Error ? error.message : 'Import failed',
+        });
+      }
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['library'] });
+    queryClient.invalidateQueries({ queryKey: ['userReviews'] });
+    setPhase('idle');
+  };
+
+  const pendingMatches = rows.filter((row) => row.matchState === 'pending');
+  const matchedCount = rows.length - pendingMatches.length;
+  const toImport = rows.filter((row) => row.include && row.match);
+  const importedCount = toImport.filter((row) => row.importState === 'done').length;
+  const failedCount = toImport.filter((row) => row.importState === 'error').length;
+  const isBusy = phase !== 'idle';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          Import from Goodreads
+        </CardTitle>
+        <CardDescription>
+          Upload your Goodreads library export (My Books → Import and export → Export Library).
+          Books are matched to Open Library before anything is added.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 mb-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={handleFile}
+        />
+
+        {rows.length === 0 ? (
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Choose CSV File
+          </Button>
+        ) : (
+          <>
+            {phase === 'idle' && pendingMatches.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Matching was interrupted with {pendingMatches.length} books left. Resume to continue where you left off.
+                </AlertDescription>
+              </Alert>
+            )}
+            {phase === 'idle' && importedCount > 0 && importedCount + failedCount < toImport.length && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Import was interrupted after {importedCount} of {toImport.length} books. Resume to continue where you left off.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {phase === 'matching' && (
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">
+                  Matching books… {matchedCount} of {rows.length}
+                </p>
+                <Progress value={(matchedCount / rows.length) * 100} />
+              </div>
+            )}
+            {(phase === 'importing' || importedCount > 0 || failedCount > 0) && (
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">
+                  Imported {importedCount} of {toImport.length}
+                  {failedCount > 0 && <span className="text-destructive"> · {failedCount} failed</span>}
+                </p>
+                <Progress value={toImport.length > 0 ? (importedCount / toImport.length) * 100 : 0} />
+              </div>
+            )}
+
+            <div className="border rounded-lg max-h-120 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={toImport.length > 0 && toImport.length === rows.filter((r) => r.match).length}
+                        disabled={isBusy}
+                        onCheckedChange={(checked) =>
+                          setRows((prev) => prev.map((row) => (row.match ? { ...row, include: !!checked } : row)))
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Goodreads</TableHead>
+                    <TableHead>Match</TableHead>
+                    <TableHead>Shelf</TableHead>
+                    <TableHead>Rating</TableHead>
+                    <TableHead className="w-8" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <ImportRowView
+                      key={row.key}
+                      row={row}
+                      disabled={isBusy || row.importState === 'done'}
+                      onChange={(changes) => updateRow(row.key, changes)}
+                    />
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+      {rows.length > 0 && (
+        <CardFooter className="bg-muted/50 px-6 py-4 flex flex-wrap gap-2">
+          {isBusy ? (
+            <Button variant="outline" onClick={() => (cancelRef.current = true)}>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Pause
+            </Button>
+          ) : (
+            <>
+              {pendingMatches.length > 0 ? (
+                <Button onClick={() => runMatching(pendingMatches)}>Resume Matching</Button>
+              ) : (
+                <Button
+                  onClick={runImport}
+                  disabled={importedCount === toImport.length}
+                >
+                  {importedCount > 0 || failedCount > 0 ? 'Resume Import' : `Import ${toImport.length} Books`}
+                </Button>
+              )}
+              <Button variant="ghost" onClick={() => setRows([])}>
+                Start Over
+              </Button>
+            </>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+function ImportRowView({
+  row,
+  disabled,
+  onChange,
+}: {
+  row: ImportRow;
+  disabled: boolean;
+  onChange: (changes: Partial<ImportRow>) => void;
+}) {
+  return (
+    <TableRow>
+      <TableCell>
+        <Checkbox
+          checked={row.include}
+          disabled={disabled || !row.match}
+          onCheckedChange={(checked) => onChange({ include: !!checked })}
+        />
+      </TableCell>
+      <TableCell className="max-w-48">
+        <p className="font-medium truncate" title={row.title}>{row.title}</p>
+        <p className="text-xs text-muted-foreground truncate">{row.author}</p>
+      </TableCell>
+      <TableCell className="max-w-56">
+        {row.matchState === 'pending' ? (
+          <span className="text-xs text-muted-foreground">Searching…</span>
+        ) : (
+          <MatchPicker
+            row={row}
+            disabled={disabled}
+            onSelect={(match) => onChange({ match, matchState: 'matched', include: true, error: undefined })}
+          />
+        )}
+      </TableCell>
+      <TableCell className="text-xs whitespace-nowrap">{statusLabels[row.status]}</TableCell>
+      <TableCell>
+        {row.rating > 0 ? <StarRating rating={row.rating} size="sm" /> : <span className="text-xs text-muted-foreground">—</span>}
+      </TableCell>
+      <TableCell>
+        {row.importState === 'done' && <CheckCircle className="h-4 w-4 text-emerald-500" />}
+        {(row.importState === 'error' || row.matchState === 'error') && (
+          <span title={row.error}>
+            <XCircle className="h-4 w-4 text-destructive" />
+          </span>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function MatchPicker({
+  row,
+  disabled,
+  onSelect,
+}: {
+  row: ImportRow;
+  disabled: boolean;
+  onSelect: (book: Book) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState(() => searchQueryFor(row));
+  const [submittedQuery, setSubmittedQuery] = useState('');
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['books', 'search', submittedQuery, 1, 5],
+    queryFn: () => api.searchBooks(submittedQuery, 1, 5),
+    enabled: open && !!submittedQuery,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          disabled={disabled}
+          className="text-left w-full rounded px-1 -mx-1 hover:bg-muted disabled:hover:bg-transparent"
+        >
+          {row.match ? (
+            <>
+              <p className="truncate">{row.match.title}</p>
+              <p className="text-xs text-muted-foreground truncate">{row.match.authors.join(', ')}</p>
+            </>
+          ) : (
+            <Badge variant="outline" className="text-yellow-500 border-yellow-500/50">
+              No match · Fix
+            </Badge>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="start">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSubmittedQuery(query.trim());
+          }}
+          className="flex gap-2 mb-2"
+        >
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} className="h-8" />
+          <Button type="submit" size="sm" variant="outline" disabled={!query.trim()}>
+            <Search className="h-4 w-4" />
+          </Button>
+        </form>
+        {isFetching && <Loader2 className="h-4 w-4 animate-spin mx-auto my-2 text-muted-foreground" />}
+        {data && data.data.books.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-2">No results</p>
+        )}
+        <div className="space-y-1">
+          {data?.data.books.map((book) => (
+            <button
+              key={book.workKey}
+              type="button"
+              className="w-full text-left text-sm rounded p-2 hover:bg-muted"
+              onClick={() => {
+                onSelect(book);
+                setOpen(false);
+              }}
+            >
+              <p className="font-medium line-clamp-1">{book.title}</p>
+              <p className="text-xs text-muted-foreground line-clamp-1">
+                {book.authors.join(', ')}
+                {book.firstPublishYear && ` · ${book.firstPublishYear}`}
+              </p>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
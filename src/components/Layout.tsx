@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { Link, Outlet, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import {
@@ -7,11 +8,12 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { BookOpen, Home, Search, Library, User, Settings, LogOut } from 'lucide-react';
+import { BookOpen, Home, Search, Library, User, Settings, LogOut, Target, BarChart3, UserCircle, Eye, Loader2 } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
+import { toast } from 'sonner';
 
 export function Layout() {
-  const { user, isAuthenticated, isAdmin, logout } = useAuth();
+  const { user, isAuthenticated, isAdmin, isImpersonating, logout } = useAuth();
   const navigate = useNavigate();
 
   const handleLogout = () => {
@@ -23,6 +25,7 @@ export function Layout() {
     <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="sticky top-0 z-50 border-b border-border bg-card/95 backdrop-blur supports-backdrop-filter:bg-card/60">
+        {isImpersonating && <ImpersonationBanner username={user?.username} />}
         <div className="container mx-auto px-4">
           <div className="flex h-16 items-center justify-between">
             {/* Logo */}
@@ -60,6 +63,14 @@ export function Layout() {
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end" className="w-48">
+                    {user?.username && (
+                      <DropdownMenuItem asChild>
+                        <Link to={`/u/${user.username}`} className="flex items-center gap-2">
+                          <UserCircle className="h-4 w-4" />
+                          My Profile
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem asChild>
                       <Link to="/library" className="flex items-center gap-2">
                         <Library className="h-4 w-4" />
@@ -72,6 +83,18 @@ export function Layout() {
                         My Reviews
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link to="/challenge" className="flex items-center gap-2">
+                        <Target className="h-4 w-4" />
+                        Reading Challenge
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link to="/stats" className="flex items-center gap-2">
+                        <BarChart3 className="h-4 w-4" />
+                        Reading Stats
+                      </Link>
+                    </DropdownMenuItem>
                     {isAdmin && (
                       <>
                         <DropdownMenuSeparator />
@@ -138,3 +161,42 @@ export function Layout() {
     </div>
   );
 }
+
+function ImpersonationBanner({ username }: { username?: string }) {
+  const { stopImpersonating } = useAuth();
+  const navigate = useNavigate();
+  const [isStopping, setIsStopping] = useState(false);
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    try {
+      await stopImpersonating();
+      navigate('/admin');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to stop impersonating');
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  return (
+    <div className="bg-amber-500 text-amber-950">
+      <div className="container mx-auto px-4 py-2 flex items-center justify-between gap-4 text-sm">
+        <span className="flex items-center gap-2">
+          <Eye className="h-4 w-4 shrink-0" />
+          You are viewing RePrint as <strong>@{username}</strong>
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 border-amber-950/30 bg-transparent hover:bg-amber-400"
+          onClick={handleStop}
+          disabled={isStopping}
+        >
+          {isStopping && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          Stop impersonating
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useRef } from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { ReviewContent } from './ReviewContent';
+import { hasInlineSpoilers } from '@/lib/markdown';
+import { Bold, EyeOff, Italic, List, ListOrdered, Quote } from 'lucide-react';
+
+type Format = 'bold' | 'italic' | 'spoiler' | 'quote' | 'list' | 'ordered';
+
+const wrapMarkers: Partial<Record<Format, string>> = {
+  bold: '**',
+  italic: '*',
+  spoiler: '||',
+};
+
+const linePrefixes: Partial<Record<Format, string>> = {
+  quote: '> ',
+  list: '- ',
+  ordered: '1. ',
+};
+
+const toolbar: Array<{ format: Format; label: string; icon: React.ElementType }> = [
+  { format: 'bold', label: 'Bold', icon: Bold },
+  { format: 'italic', label: 'Italic', icon: Italic },
+  { format: 'quote', label: 'Quote', icon: Quote },
+  { format: 'list', label: 'Bulleted list', icon: List },
+  { format: 'ordered', label: 'Numbered list', icon: ListOrdered },
+  { format: 'spoiler', label: 'Spoiler', icon: EyeOff },
+];
+
+export function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  placeholder,
+  maxLength,
+  rows = 6,
+}: {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  maxLength?: number;
+  rows?: number;
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const applyFormat = (format: Format) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const selected = value.slice(start, end);
+    let next: string;
+    let cursorStart: number;
+    let cursorEnd: number;
+
+    const marker = wrapMarkers[format];
+    if (marker) {
+      next = value.slice(0, start) + marker + selected + marker + value.slice(end);
+      cursorStart = start + marker.length;
+      cursorEnd = cursorStart + selected.length;
+    } else {
+      // Prefix every selected line, starting from the beginning of the first one
+      const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+      const block = value.slice(lineStart, end);
+      const prefixed = block
+        .split('\n')
+        .map((line, i) => (format === 'ordered' ? `${i + 1}. ` : linePrefixes[format]) + line)
+        .join('\n');
+      next = value.slice(0, lineStart) + prefixed + value.slice(end);
+      cursorStart = lineStart;
+      cursorEnd = lineStart + prefixed.length;
+    }
+
+    if (maxLength && next.length > maxLength) return;
+    onChange(next);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursorStart, cursorEnd);
+    });
+  };
+
+  return (
+    <Tabs defaultValue="write">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <TabsList>
+          <TabsTrigger value="write">Write</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+        <div className="flex items-center gap-0.5">
+          {toolbar.map(({ format, label, icon: Icon }) => (
+            <Button
+              key={format}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title={label}
+              aria-label={label}
+              onClick={() => applyFormat(format)}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <TabsContent value="write">
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          rows={rows}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          maxLength={maxLength}
+          className="resize-none"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Supports **bold**, *italics*, &gt; quotes, lists and ||inline spoilers||.
+        </p>
+      </TabsContent>
+
+      <TabsContent value="preview">
+        <div className="min-h-32 rounded-md border border-input px-3 py-2">
+          {value.trim() ? (
+            <ReviewContent content={value} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+          )}
+        </div>
+        {hasInlineSpoilers(value) && (
+          <p className="text-xs text-muted-foreground mt-1">
+            Spoiler segments stay blurred until a reader clicks them.
+          </p>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
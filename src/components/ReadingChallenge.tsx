@@ -0,0 +1,66 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ProgressRing } from './ProgressRing';
+import { useReadingChallenge } from '@/hooks/use-reading-challenge';
+import { ArrowRight, Target, TrendingDown, TrendingUp } from 'lucide-react';
+
+export function ScheduleStatus({ delta, isComplete }: { delta: number; isComplete: boolean }) {
+  if (isComplete) {
+    return <Badge className="bg-emerald-600 hover:bg-emerald-600">Goal complete</Badge>;
+  }
+  if (delta === 0) {
+    return <Badge variant="secondary">On track</Badge>;
+  }
+  return delta > 0 ? (
+    <Badge className="gap-1 bg-emerald-600 hover:bg-emerald-600">
+      <TrendingUp className="h-3 w-3" />
+      {delta} book{delta !== 1 ? 's' : ''} ahead
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="gap-1 text-yellow-600 border-yellow-500/50">
+      <TrendingDown className="h-3 w-3" />
+      {-delta} book{delta !== -1 ? 's' : ''} behind
+    </Badge>
+  );
+}
+
+export function ReadingChallengeSummary() {
+  const year = new Date().getFullYear();
+  const { target, booksRead, scheduleDelta, percent, isLoading } = useReadingChallenge(year);
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full max-w-md mx-auto rounded-2xl" />;
+  }
+
+  return (
+    <Link
+      to="/challenge"
+      className="group flex items-center gap-6 max-w-md mx-auto p-5 rounded-2xl border-2 border-border bg-card hover:border-primary hover:bg-primary/5 transition-all text-left"
+    >
+      {target ? (
+        <>
+          <ProgressRing value={percent} size={88} strokeWidth={8}>
+            <span className="text-lg font-bold leading-none">{booksRead.length}</span>
+            <span className="text-xs text-muted-foreground">of {target}</span>
+          </ProgressRing>
+          <div className="flex-1 space-y-2">
+            <p className="font-medium">{year} Reading Challenge</p>
+            <ScheduleStatus delta={scheduleDelta} isComplete={booksRead.length >= target} />
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+            <Target className="h-8 w-8 text-primary" />
+          </div>
+          <div className="flex-1">
+            <p className="font-medium">{year} Reading Challenge</p>
+            <p className="text-sm text-muted-foreground">Set a goal for how many books to read this year.</p>
+          </div>
+        </>
+      )}
+      <ArrowRight className="h-4 w-4 text-muted-foreground group-hover:text-primary group-hover:translate-x-1 transition-all" />
+    </Link>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+import { Loader2, Pencil } from 'lucide-react';
+import type { LibraryItem, ReadingProgressUpdate } from '../types';
+
+interface ReadingProgressEditorProps {
+  item: LibraryItem;
+  onSave: (data: ReadingProgressUpdate) => void;
+  isSaving?: boolean;
+  className?: string;
+}
+
+// Prefer the page-based value when both page counts are known
+function getPercent(item: LibraryItem) {
+  if (item.currentPage != null && item.totalPages) {
+    return Math.min(100, Math.round((item.currentPage / item.totalPages) * 100));
+  }
+  return item.progressPercent ?? 0;
+}
+
+export function ReadingProgressEditor({
+  item,
+  onSave,
+  isSaving = false,
+  className,
+}: ReadingProgressEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<'pages' | 'percent'>(item.totalPages ? 'pages' : 'percent');
+  const [currentPage, setCurrentPage] = useState('');
+  const [totalPages, setTotalPages] = useState('');
+  const [percent, setPercent] = useState('');
+
+  const displayPercent = getPercent(item);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      // Reset the form to the latest saved values each time it opens
+      setCurrentPage(item.currentPage?.toString() ?? '');
+      setTotalPages(item.totalPages?.toString() ?? '');
+      setPercent(displayPercent.toString());
+    }
+    setOpen(next);
+  };
+
+  const current = parseInt(currentPage, 10);
+  const total = parseInt(totalPages, 10);
+  const pct = parseInt(percent, 10);
+  const isValid =
+    mode === 'pages'
+      ? !isNaN(current) && !isNaN(total) && current >= 0 && total > 0 && current <= total
+      : !isNaN(pct) && pct >= 0 && pct <= 100;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave(mode === 'pages' ? { currentPage: current, totalPages: total } : { percent: pct });
+    setOpen(false);
+  };
+
+  return (
+    <div className={cn('space-y-1.5', className)}>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {item.currentPage != null && item.totalPages
+            ? `Page ${item.currentPage} of ${item.totalPages}`
+            : 'Progress'}
+          {' · '}
+          <span className="text-foreground font-medium">{displayPercent}%</span>
+        </span>
+        <Popover open={open} onOpenChange={handleOpenChange}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" disabled={isSaving}>
+              {isSaving ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <Pencil className="h-3 w-3 mr-1" />
+              )}
+              Update
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64" align="end">
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <Tabs value={mode} onValueChange={(v) => setMode(v as typeof mode)}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="pages">Pages</TabsTrigger>
+                  <TabsTrigger value="percent">Percent</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {mode === 'pages' ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor={`current-page-${item.id}`} className="text-xs">Current page</Label>
+                    <Input
+                      id={`current-page-${item.id}`}
+                      type="number"
+                      min={0}
+                      value={currentPage}
+                      onChange={(e) => setCurrentPage(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`total-pages-${item.id}`} className="text-xs">Total pages</Label>
+                    <Input
+                      id={`total-pages-${item.id}`}
+                      type="number"
+                      min={1}
+                      value={totalPages}
+                      onChange={(e) => setTotalPages(e.target.value)}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <Label htmlFor={`percent-${item.id}`} className="text-xs">Percent complete</Label>
+                  <Input
+                    id={`percent-${item.id}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={percent}
+                    onChange={(e) => setPercent(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <Button type="submit" size="sm" className="w-full" disabled={!isValid}>
+                Save Progress
+              </Button>
+            </form>
+          </PopoverContent>
+        </Popover>
+      </div>
+      <Progress value={displayPercent} className="h-1.5" />
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { api } from '../api';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { CalendarDays, Plus, Repeat, Trash2, X } from 'lucide-react';
+import type { LibraryItem, ReadingSession } from '../types';
+
+type SessionDates = { startedAt?: string | null; finishedAt?: string | null };
+
+// Session dates are calendar days, so keep them as yyyy-MM-dd to avoid timezone drift
+function toDateString(date: Date) {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function formatDate(value: string) {
+  return format(parseISO(value), 'MMM d, yyyy');
+}
+
+export function ReadingDates({ item }: { item: LibraryItem }) {
+  if (!item.startedAt && !item.finishedAt) return null;
+
+  return (
+    <>
+      {item.startedAt && <p>Started {formatDate(item.startedAt)}</p>}
+      {item.finishedAt && <p>Finished {formatDate(item.finishedAt)}</p>}
+      {(item.readCount ?? 0) > 1 && <p>Read {item.readCount} times</p>}
+    </>
+  );
+}
+
+export function ReadingSessionsDialog({ item, trigger }: { item: LibraryItem; trigger?: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['readingSessions', item.id],
+    queryFn: () => api.getReadingSessions(item.id),
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['readingSessions', item.id] });
+    queryClient.invalidateQueries({ queryKey: ['library'] });
+    const normalizedKey = item.workKey.replace('/works/', '').replace(/^\//, '');
+    queryClient.invalidateQueries({ queryKey: ['book', normalizedKey] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createReadingSession(item.id, { startedAt: toDateString(new Date()) }),
+    onSuccess: invalidate,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ sessionId, dates }: { sessionId: string; dates: SessionDates }) =>
+      api.updateReadingSession(item.id, sessionId, dates),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (sessionId: string) => api.deleteReadingSession(item.id, sessionId),
+    onSuccess: invalidate,
+  });
+
+  const sessions = data?.data.sessions ?? [];
+  const isMutating = createMutation.isPending || updateMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button variant="outline" size="sm" className="h-9 text-xs">
+            <CalendarDays className="h-4 w-4 mr-1" />
+            Reading Dates
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reading dates</DialogTitle>
+          <DialogDescription>
+            When you started and finished "{item.title}". Log a re-read to track it as a new session.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No reading sessions yet.
+          </p>
+        ) : (
+          <div className="divide-y divide-border">
+            {sessions.map((session, i) => (
+              <SessionRow
+                key={session.id}
+                session={session}
+                label={sessions.length > 1 ? `Read ${i + 1}` : undefined}
+                disabled={isMutating}
+                onChange={(dates) => updateMutation.mutate({ sessionId: session.id, dates })}
+                onDelete={() => deleteMutation.mutate(session.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={() => createMutation.mutate()}
+          disabled={isMutating}
+        >
+          {sessions.length > 0 ? (
+            <>
+              <Repeat className="h-4 w-4 mr-2" />
+              Log a Re-read
+            </>
+          ) : (
+            <>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Session
+            </>
+          )}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SessionRow({
+  session,
+  label,
+  disabled,
+  onChange,
+  onDelete,
+}: {
+  session: ReadingSession;
+  label?: string;
+  disabled: boolean;
+  onChange: (dates: SessionDates) => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="flex items-end gap-2 py-3">
+      <div className="flex-1 grid grid-cols-2 gap-2">
+        <DateField
+          label={label ? `${label} · Started` : 'Started'}
+          value={session.startedAt}
+          latest={session.finishedAt}
+          disabled={disabled}
+          onChange={(startedAt) => onChange({ startedAt })}
+        />
+        <DateField
+          label="Finished"
+          value={session.finishedAt}
+          earliest={session.startedAt}
+          disabled={disabled}
+          onChange={(finishedAt) => onChange({ finishedAt })}
+        />
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9 text-muted-foreground hover:text-destructive"
+        onClick={onDelete}
+        disabled={disabled}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function DateField({
+  label,
+  value,
+  earliest,
+  latest,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  value: string | null;
+  earliest?: string | null;
+  latest?: string | null;
+  disabled: boolean;
+  onChange: (value: string | null) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const selected = value ? parseISO(value) : undefined;
+  // A session can't finish before it starts, and neither end can be in the future
+  const disabledDays = [
+    { after: latest ? parseISO(latest) : new Date() },
+    ...(earliest ? [{ before: parseISO(earliest) }] : []),
+  ];
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <div className="flex items-center gap-1">
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="flex-1 justify-start font-normal" disabled={disabled}>
+              <CalendarDays className="h-4 w-4 mr-2 text-muted-foreground" />
+              {value ? formatDate(value) : <span className="text-muted-foreground">Not set</span>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={selected}
+              defaultMonth={selected}
+              disabled={disabledDays}
+              onSelect={(date) => {
+                onChange(date ? toDateString(date) : null);
+                setOpen(false);
+              }}
+            />
+          </PopoverContent>
+        </Popover>
+        {value && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
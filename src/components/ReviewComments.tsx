@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { api } from '../api';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { Heart, Loader2, MessageCircle, Reply, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import type { ReviewComment } from '../types';
+
+export function ReviewLikeButton({
+  reviewId,
+  likeCount = 0,
+  isLiked = false,
+  disabled = false,
+}: {
+  reviewId: string;
+  likeCount?: number;
+  isLiked?: boolean;
+  disabled?: boolean;
+}) {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  const likeMutation = useMutation({
+    mutationFn: () => (isLiked ? api.unlikeReview(reviewId) : api.likeReview(reviewId)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['book'] }),
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => likeMutation.mutate()}
+      disabled={!isAuthenticated || disabled || likeMutation.isPending}
+      title={isAuthenticated ? (isLiked ? 'Unlike' : 'Like this review') : 'Sign in to like reviews'}
+      className="gap-1.5 text-muted-foreground"
+    >
+      <Heart className={cn('h-4 w-4', isLiked && 'fill-red-500 text-red-500')} />
+      {likeCount > 0 ? likeCount.toLocaleString() : 'Helpful'}
+    </Button>
+  );
+}
+
+export function ReviewComments({ reviewId, commentCount = 0 }: { reviewId: string; commentCount?: number }) {
+  const { isAuthenticated } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['reviewComments', reviewId],
+    queryFn: () => api.getReviewComments(reviewId),
+    enabled: isOpen,
+  });
+
+  const comments = data?.data.comments ?? [];
+  const repliesByParent = new Map<string | null, ReviewComment[]>();
+  for (const comment of comments) {
+    const siblings = repliesByParent.get(comment.parentId) ?? [];
+    siblings.push(comment);
+    repliesByParent.set(comment.parentId, siblings);
+  }
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        className="gap-1.5 text-muted-foreground"
+      >
+        <MessageCircle className="h-4 w-4" />
+        {commentCount > 0 ? `${commentCount.toLocaleString()} comment${commentCount !== 1 ? 's' : ''}` : 'Comment'}
+      </Button>
+
+      {isOpen && (
+        <div className="basis-full mt-3 space-y-3">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-2/3" />
+            </div>
+          ) : (
+            <CommentThread reviewId={reviewId} parentId={null} repliesByParent={repliesByParent} />
+          )}
+
+          {isAuthenticated ? (
+            <CommentForm reviewId={reviewId} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              <Link to="/login" className="underline">Sign in</Link> to join the conversation.
+            </p>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+function CommentThread({
+  reviewId,
+  parentId,
+  repliesByParent,
+}: {
+  reviewId: string;
+  parentId: string | null;
+  repliesByParent: Map<string | null, ReviewComment[]>;
+}) {
+  const comments = repliesByParent.get(parentId) ?? [];
+  if (comments.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-3', parentId && 'pl-4 border-l border-border')}>
+      {comments.map((comment) => (
+        <CommentItem key={comment.id} reviewId={reviewId} comment={comment}>
+          <CommentThread reviewId={reviewId} parentId={comment.id} repliesByParent={repliesByParent} />
+        </CommentItem>
+      ))}
+    </div>
+  );
+}
+
+function CommentItem({
+  reviewId,
+  comment,
+  children,
+}: {
+  reviewId: string;
+  comment: ReviewComment;
+  children: React.ReactNode;
+}) {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [isReplying, setIsReplying] = useState(false);
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteReviewComment(reviewId, comment.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reviewComments', reviewId] });
+      queryClient.invalidateQueries({ queryKey: ['book'] });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="bg-secondary/40 rounded-md px-3 py-2">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Link to={`/u/${comment.username}`} className="font-medium text-foreground hover:text-primary">
+            {comment.username}
+          </Link>
+          <span>{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</span>
+          {comment.isOwn && comment.status !== 'approved' && (
+            <Badge variant="secondary" className="text-xs">
+              {comment.status}
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm whitespace-pre-wrap mt-1">{comment.content}</p>
+        <div className="flex items-center gap-1 -ml-2 mt-1">
+          {isAuthenticated && comment.status === 'approved' && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setIsReplying(!isReplying)}>
+              <Reply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+          )}
+          {comment.isOwn && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+            >
+              <Trash2 className="h-3 w-3 mr-1" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+      {isReplying && (
+        <div className="pl-4">
+          <CommentForm reviewId={reviewId} parentId={comment.id} onDone={() => setIsReplying(false)} />
+        </div>
+      )}
+      {children}
+    </div>
+  );
+}
+
+function CommentForm({
+  reviewId,
+  parentId,
+  onDone,
+}: {
+  reviewId: string;
+  parentId?: string;
+  onDone?: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [content, setContent] = useState('');
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createReviewComment(reviewId, { content: content.trim(), parentId }),
+    onSuccess: () => {
+      setContent('');
+      toast.success('Your comment has been submitted for approval.');
+      queryClient.invalidateQueries({ queryKey: ['reviewComments', reviewId] });
+      onDone?.();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (content.trim()) createMutation.mutate();
+      }}
+      className="space-y-2"
+    >
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={parentId ? 'Write a reply...' : 'Add a comment...'}
+        rows={2}
+        maxLength={1000}
+      />
+      <div className="flex justify-end gap-2">
+        {onDone && (
+          <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={!content.trim() || createMutation.isPending}>
+          {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {parentId ? 'Reply' : 'Comment'}
+        </Button>
+      </div>
+    </form>
+  );
+}
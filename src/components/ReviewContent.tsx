@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react';
+import { parseMarkdown, type BlockNode, type InlineNode } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+export function ReviewContent({
+  content,
+  revealSpoilers = false,
+  className,
+}: {
+  content: string;
+  revealSpoilers?: boolean;
+  className?: string;
+}) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className={cn('space-y-3 text-foreground/90 leading-relaxed wrap-break-word', className)}>
+      <Blocks blocks={blocks} revealSpoilers={revealSpoilers} />
+    </div>
+  );
+}
+
+function Blocks({ blocks, revealSpoilers }: { blocks: BlockNode[]; revealSpoilers: boolean }) {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <p key={i} className="whitespace-pre-wrap">
+            <Inline nodes={block.children} revealSpoilers={revealSpoilers} />
+          </p>
+        );
+      case 'quote':
+        return (
+          <blockquote key={i} className="border-l-2 border-primary/40 pl-4 text-muted-foreground space-y-3">
+            <Blocks blocks={block.children} revealSpoilers={revealSpoilers} />
+          </blockquote>
+        );
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={i} className={cn('pl-6 space-y-1', block.ordered ? 'list-decimal' : 'list-disc')}>
+            {block.items.map((item, j) => (
+              <li key={j}>
+                <Inline nodes={item} revealSpoilers={revealSpoilers} />
+              </li>
+            ))}
+          </List>
+        );
+      }
+    }
+  });
+}
+
+function Inline({ nodes, revealSpoilers }: { nodes: InlineNode[]; revealSpoilers: boolean }) {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'strong':
+        return (
+          <strong key={i} className="font-semibold text-foreground">
+            <Inline nodes={node.children} revealSpoilers={revealSpoilers} />
+          </strong>
+        );
+      case 'em':
+        return (
+          <em key={i}>
+            <Inline nodes={node.children} revealSpoilers={revealSpoilers} />
+          </em>
+        );
+      case 'spoiler':
+        return (
+          <Spoiler key={i} initiallyRevealed={revealSpoilers}>
+            <Inline nodes={node.children} revealSpoilers={revealSpoilers} />
+          </Spoiler>
+        );
+    }
+  });
+}
+
+function Spoiler({ initiallyRevealed, children }: { initiallyRevealed: boolean; children: React.ReactNode }) {
+  const [isRevealed, setIsRevealed] = useState(initiallyRevealed);
+
+  if (isRevealed) {
+    return <span className="rounded bg-secondary/60 px-0.5">{children}</span>;
+  }
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      title="Spoiler: click to reveal"
+      onClick={() => setIsRevealed(true)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          setIsRevealed(true);
+        }
+      }}
+      className="rounded bg-secondary px-0.5 blur-sm select-none cursor-pointer transition hover:blur-[3px]"
+    >
+      {children}
+    </span>
+  );
+}
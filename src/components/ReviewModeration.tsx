@@ -0,0 +1,515 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { diffWords } from '@/lib/diff';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { History, Loader2, Plus, Settings2, StickyNote, Trash2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ReapprovalPolicy, Review, ReviewRevision } from '../types';
+
+const CUSTOM_REASON = 'custom';
+
+const policyLabels: Record<ReapprovalPolicy, string> = {
+  always: 'Re-approve every edit',
+  substantive: 'Re-approve substantive edits',
+  never: 'Keep edits approved',
+};
+
+export function ReviewRevisionsDialog({ review }: { review: Review }) {
+  const [open, setOpen] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['reviewRevisions', review.id],
+    queryFn: () => api.getReviewRevisions(review.id),
+    enabled: open,
+  });
+
+  const revisions = data?.data.revisions ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost">
+          <History className="h-4 w-4 mr-2" />
+          View changes
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            {review.username || 'Unknown'}'s review of {review.bookTitle}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : revisions.length < 2 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">This review hasn't been edited.</p>
+        ) : (
+          <div className="space-y-6">
+            {revisions
+              .slice(1)
+              .map((revision, i) => ({ before: revisions[i], after: revision, number: i + 1 }))
+              .reverse()
+              .map(({ before, after, number }) => (
+                <RevisionDiff key={after.id} before={before} after={after} number={number} />
+              ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RevisionDiff({ before, after, number }: { before: ReviewRevision; after: ReviewRevision; number: number }) {
+  const parts = useMemo(() => diffWords(before.content, after.content), [before.content, after.content]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">Edit {number}</span>
+        <span className="text-muted-foreground">{new Date(after.createdAt).toLocaleString()}</span>
+        {after.rating !== before.rating && (
+          <Badge variant="outline">
+            Rating {before.rating} → {after.rating}
+          </Badge>
+        )}
+        {after.hasSpoilers !== before.hasSpoilers && (
+          <Badge variant="outline">{after.hasSpoilers ? 'Marked as spoilers' : 'Spoiler flag removed'}</Badge>
+        )}
+        {after.statusAfterEdit === 'pending' && <Badge variant="secondary">Sent back to pending</Badge>}
+      </div>
+      <p className="text-sm whitespace-pre-wrap rounded-md border p-3 leading-relaxed">
+        {parts.map((part, i) =>
+          part.type === 'equal' ? (
+            <span key={i}>{part.text}</span>
+          ) : part.type === 'added' ? (
+            <ins key={i} className="bg-emerald-500/20 text-emerald-700 dark:text-emerald-300 no-underline">
+              {part.text}
+            </ins>
+          ) : (
+            <del key={i} className="bg-destructive/15 text-destructive">
+              {part.text}
+            </del>
+          )
+        )}
+      </p>
+    </div>
+  );
+}
+
+export function ModerationSettingsDialog() {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [policy, setPolicy] = useState<ReapprovalPolicy | null>(null);
+  const [threshold, setThreshold] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['moderationSettings'],
+    queryFn: () => api.getModerationSettings(),
+    enabled: open,
+  });
+
+  const settings = data?.data.settings;
+  const currentPolicy = policy ?? settings?.reapprovalPolicy ?? 'substantive';
+  const currentThreshold = threshold ?? settings?.substantiveEditThreshold.toString() ?? '20';
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      api.updateModerationSettings({
+        reapprovalPolicy: currentPolicy,
+        substantiveEditThreshold: parseInt(currentThreshold, 10),
+      }),
+    onSuccess: () => {
+      toast.success('Moderation settings saved');
+      queryClient.invalidateQueries({ queryKey: ['moderationSettings'] });
+      setOpen(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const thresholdValue = parseInt(currentThreshold, 10);
+  const isThresholdValid = thresholdValue >= 1 && thresholdValue <= 100;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) {
+          setPolicy(null);
+          setThreshold(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="h-4 w-4 mr-2" />
+          Edit Policy
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edited review policy</DialogTitle>
+          <DialogDescription>
+            Decide whether approved reviews go back to the moderation queue when their authors edit them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>When an approved review is edited</Label>
+              <Select value={currentPolicy} onValueChange={(v) => setPolicy(v as ReapprovalPolicy)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(policyLabels) as ReapprovalPolicy[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {policyLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {currentPolicy === 'substantive' && (
+              <div className="space-y-2">
+                <Label htmlFor="edit-threshold">Substantive edit threshold (%)</Label>
+                <Input
+                  id="edit-threshold"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={currentThreshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Edits that change at least this share of the review's words, or change its rating or spoiler flag,
+                  need approval again.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={isLoading || saveMutation.isPending || (currentPolicy === 'substantive' && !isThresholdValid)}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function RejectReviewDialog({
+  open,
+  onOpenChange,
+  count,
+  onConfirm,
+  isPending,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  count: number;
+  onConfirm: (reason: string) => void;
+  isPending: boolean;
+}) {
+  const [templateId, setTemplateId] = useState(CUSTOM_REASON);
+  const [reason, setReason] = useState('');
+
+  const { data } = useQuery({
+    queryKey: ['rejectionTemplates'],
+    queryFn: () => api.getRejectionTemplates(),
+    enabled: open,
+  });
+
+  const templates = data?.data.templates ?? [];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next) {
+          setTemplateId(CUSTOM_REASON);
+          setReason('');
+        }
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            Reject {count} review{count !== 1 ? 's' : ''}
+          </DialogTitle>
+          <DialogDescription>
+            The reason is shown to the author so they can edit and resubmit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select
+              value={templateId}
+              onValueChange={(value) => {
+                setTemplateId(value);
+                const template = templates.find((t) => t.id === value);
+                if (template) setReason(template.message);
+              }}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_REASON}>Write a custom reason</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Explain what needs to change..."
+            rows={4}
+            maxLength={1000}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={() => onConfirm(reason.trim())} disabled={!reason.trim() || isPending}>
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4 mr-2" />}
+            Reject
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function RejectionTemplatesDialog() {
+  const queryClient = useQueryClient();
+  const [label, setLabel] = useState('');
+  const [message, setMessage] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['rejectionTemplates'],
+    queryFn: () => api.getRejectionTemplates(),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createRejectionTemplate({ label: label.trim(), message: message.trim() }),
+    onSuccess: () => {
+      setLabel('');
+      setMessage('');
+      queryClient.invalidateQueries({ queryKey: ['rejectionTemplates'] });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteRejectionTemplate(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['rejectionTemplates'] }),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const templates = data?.data.templates ?? [];
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <XCircle className="h-4 w-4 mr-2" />
+          Rejection Reasons
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rejection reason templates</DialogTitle>
+          <DialogDescription>Saved reasons moderators can pick from when rejecting a review.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No templates yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-start gap-3 p-3 border rounded-md">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{template.label}</p>
+                  <p className="text-xs text-muted-foreground whitespace-pre-wrap">{template.message}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={() => deleteMutation.mutate(template.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label={`Delete ${template.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (label.trim() && message.trim()) createMutation.mutate();
+          }}
+          className="space-y-2 pt-4 border-t"
+        >
+          <Label htmlFor="template-label">New template</Label>
+          <Input
+            id="template-label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Short label, e.g. Off-topic"
+            maxLength={60}
+          />
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Message shown to the author"
+            rows={3}
+            maxLength={1000}
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={!label.trim() || !message.trim() || createMutation.isPending}>
+              {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Template
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ModeratorNotesDialog({ review }: { review: Review }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [content, setContent] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['moderatorNotes', review.id],
+    queryFn: () => api.getModeratorNotes(review.id),
+    enabled: open,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: () => api.addModeratorNote(review.id, content.trim()),
+    onSuccess: () => {
+      setContent('');
+      queryClient.invalidateQueries({ queryKey: ['moderatorNotes', review.id] });
+      queryClient.invalidateQueries({ queryKey: ['adminReviews'] });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const notes = data?.data.notes ?? [];
+  const noteCount = review.moderatorNoteCount ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost">
+          <StickyNote className="h-4 w-4 mr-2" />
+          Notes{noteCount > 0 && ` (${noteCount})`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Moderator notes</DialogTitle>
+          <DialogDescription>Only visible to moderators. Authors never see these.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : notes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No notes yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {notes.map((note) => (
+              <div key={note.id} className="p-3 rounded-md bg-secondary/50">
+                <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {note.authorName} · {new Date(note.createdAt).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (content.trim()) addMutation.mutate();
+          }}
+          className="space-y-2"
+        >
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Add a note for other moderators..."
+            rows={3}
+            maxLength={2000}
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={!content.trim() || addMutation.isPending}>
+              {addMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Note
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { useAuth } from '@/hooks/use-auth';
+import { reportReasonLabels } from '@/lib/reports';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Flag, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ReportReason } from '../types';
+
+export function ReportReviewDialog({ reviewId, isReported = false }: { reviewId: string; isReported?: boolean }) {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+
+  const reportMutation = useMutation({
+    mutationFn: () => api.reportReview(reviewId, { reason: reason as ReportReason, details: details.trim() || undefined }),
+    onSuccess: () => {
+      toast.success('Thanks, a moderator will take a look.');
+      queryClient.invalidateQueries({ queryKey: ['book'] });
+      setOpen(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (!isAuthenticated) return null;
+
+  if (isReported) {
+    return (
+      <Button variant="ghost" size="sm" disabled className="gap-1.5 text-muted-foreground">
+        <Flag className="h-4 w-4" />
+        Reported
+      </Button>
+    );
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) {
+          setReason('');
+          setDetails('');
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1.5 text-muted-foreground">
+          <Flag className="h-4 w-4" />
+          Report
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report review</DialogTitle>
+          <DialogDescription>Let our moderators know what's wrong with this review.</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(v) => setReason(v as ReportReason)} className="gap-3">
+          {(Object.keys(reportReasonLabels) as ReportReason[]).map((value) => (
+            <div key={value} className="flex items-center gap-2">
+              <RadioGroupItem value={value} id={`report-${reviewId}-${value}`} />
+              <Label htmlFor={`report-${reviewId}-${value}`} className="font-normal cursor-pointer">
+                {reportReasonLabels[value]}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder={reason === 'other' ? 'Tell us more (required)' : 'Add details (optional)'}
+          rows={3}
+          maxLength={500}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || (reason === 'other' && !details.trim()) || reportMutation.isPending}
+          >
+            {reportMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
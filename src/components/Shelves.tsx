@@ -0,0 +1,350 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowDown, ArrowUp, Check, ChevronDown, Edit, Eye, EyeOff, ListPlus, Plus, Settings2, Trash2, X } from 'lucide-react';
+import type { LibraryItem, Shelf } from '../types';
+
+// The page owns a single ManageShelvesDialog and opens it through onManageShelves
+export function ShelfPicker({
+  item,
+  className,
+  onManageShelves,
+}: {
+  item: LibraryItem;
+  className?: string;
+  onManageShelves: () => void;
+}) {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['shelves'],
+    queryFn: () => api.getShelves(),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ shelfId, checked }: { shelfId: string; checked: boolean }) =>
+      checked ? api.addToShelf(shelfId, item.id) : api.removeFromShelf(shelfId, item.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shelves'] });
+      queryClient.invalidateQueries({ queryKey: ['library'] });
+      const normalizedKey = item.workKey.replace('/works/', '').replace(/^\//, '');
+      queryClient.invalidateQueries({ queryKey: ['book', normalizedKey] });
+    },
+  });
+
+  const shelves = data?.data.shelves ?? [];
+  const memberOf = new Set(item.shelfIds ?? []);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className ?? 'w-full justify-between'}>
+          <span className="flex items-center gap-2">
+            <ListPlus className="h-4 w-4" />
+            {memberOf.size > 0 ? `On ${memberOf.size} ${memberOf.size === 1 ? 'shelf' : 'shelves'}` : 'Add to Shelf'}
+          </span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-56">
+        <DropdownMenuLabel>Shelves</DropdownMenuLabel>
+        {shelves.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">No shelves yet</p>
+        )}
+        {shelves.map((shelf) => (
+          <DropdownMenuCheckboxItem
+            key={shelf.id}
+            checked={memberOf.has(shelf.id)}
+            disabled={toggleMutation.isPending}
+            onCheckedChange={(checked) => toggleMutation.mutate({ shelfId: shelf.id, checked: !!checked })}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {shelf.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={onManageShelves} className="cursor-pointer">
+          <Settings2 className="h-4 w-4 mr-2" />
+          Manage Shelves
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export function ManageShelvesDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [newShelfName, setNewShelfName] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['shelves'],
+    queryFn: () => api.getShelves(),
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['shelves'] });
+    queryClient.invalidateQueries({ queryKey: ['library'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (name: string) => api.createShelf(name),
+    onSuccess: () => {
+      invalidate();
+      setNewShelfName('');
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: { name?: string; isPublic?: boolean } }) =>
+      api.updateShelf(id, data),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteShelf(id),
+    onSuccess: invalidate,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (shelfIds: string[]) => api.reorderShelves(shelfIds),
+    onSuccess: invalidate,
+  });
+
+  const shelves = data?.data.shelves ?? [];
+  const isMutating =
+    createMutation.isPending ||
+    updateMutation.isPending ||
+    deleteMutation.isPending ||
+    reorderMutation.isPending;
+
+  const moveShelf = (index: number, direction: -1 | 1) => {
+    const ids = shelves.map((s) => s.id);
+    const target = index + direction;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newShelfName.trim()) {
+      createMutation.mutate(newShelfName.trim());
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Manage shelves</DialogTitle>
+          <DialogDescription>
+            Create your own shelves to organize your library beyond reading status.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : shelves.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            You haven't created any shelves yet.
+          </p>
+        ) : (
+          <div className="divide-y divide-border">
+            {shelves.map((shelf, index) => (
+              <ShelfRow
+                key={shelf.id}
+                shelf={shelf}
+                disabled={isMutating}
+                canMoveUp={index > 0}
+                canMoveDown={index < shelves.length - 1}
+                onMoveUp={() => moveShelf(index, -1)}
+                onMoveDown={() => moveShelf(index, 1)}
+                onRename={(name) => updateMutation.mutate({ id: shelf.id, data: { name } })}
+                onTogglePublic={() => updateMutation.mutate({ id: shelf.id, data: { isPublic: !shelf.isPublic } })}
+                onDelete={() => deleteMutation.mutate(shelf.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            placeholder="New shelf name"
+            value={newShelfName}
+            onChange={(e) => setNewShelfName(e.target.value)}
+            maxLength={50}
+          />
+          <Button type="submit" disabled={!newShelfName.trim() || isMutating}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ShelfRow({
+  shelf,
+  disabled,
+  canMoveUp,
+  canMoveDown,
+  onMoveUp,
+  onMoveDown,
+  onRename,
+  onTogglePublic,
+  onDelete,
+}: {
+  shelf: Shelf;
+  disabled: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onRename: (name: string) => void;
+  onTogglePublic: () => void;
+  onDelete: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(shelf.name);
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim() && name.trim() !== shelf.name) {
+      onRename(name.trim());
+    }
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="flex items-center gap-2 py-2">
+      {isEditing ? (
+        <form onSubmit={handleRename} className="flex-1 flex items-center gap-1">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={50}
+            className="h-8"
+            autoFocus
+          />
+          <Button type="submit" variant="ghost" size="icon" className="h-8 w-8">
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => {
+              setName(shelf.name);
+              setIsEditing(false);
+            }}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </form>
+      ) : (
+        <>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{shelf.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {shelf.itemCount} book{shelf.itemCount !== 1 ? 's' : ''} · {shelf.isPublic ? 'Public' : 'Private'}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={onTogglePublic}
+            disabled={disabled}
+            title={shelf.isPublic ? 'Hide from your profile' : 'Show on your profile'}
+          >
+            {shelf.isPublic ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4 text-muted-foreground" />}
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onMoveUp} disabled={disabled || !canMoveUp}>
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onMoveDown} disabled={disabled || !canMoveDown}>
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => {
+              // Start from the current name, which may have changed since this row mounted
+              setName(shelf.name);
+              setIsEditing(true);
+            }}
+            disabled={disabled}
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                disabled={disabled}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete shelf?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This will delete the "{shelf.name}" shelf. The books on it will stay in your library.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </div>
+  );
+}
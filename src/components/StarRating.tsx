@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { Star } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -6,6 +7,8 @@ interface StarRatingProps {
   maxRating?: number;
   size?: 'sm' | 'md' | 'lg';
   interactive?: boolean;
+  // Smallest increment when picking a rating; display always shows exact fractions
+  step?: 0.5 | 1;
   onChange?: (rating: number) => void;
 }
 
@@ -14,42 +17,101 @@ export function StarRating({
   maxRating = 5,
   size = 'md',
   interactive = false,
+  step = 0.5,
   onChange,
 }: StarRatingProps) {
+  const [hoverRating, setHoverRating] = useState<number | null>(null);
+
   const sizeClasses = {
     sm: 'h-3 w-3',
     md: 'h-5 w-5',
     lg: 'h-6 w-6',
   };
 
-  const handleClick = (index: number) => {
+  const displayRating = hoverRating ?? rating;
+
+  const setRating = (value: number) => {
     if (interactive && onChange) {
-      onChange(index + 1);
+      onChange(Math.min(maxRating, Math.max(step, value)));
+    }
+  };
+
+  // Pointer position within a star decides between the half and whole value
+  const valueAt = (index: number, e: React.MouseEvent<HTMLElement>) => {
+    if (step === 1) return index + 1;
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    return e.clientX - left < width / 2 ? index + 0.5 : index + 1;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const current = rating || 0;
+    const keyValues: Record<string, number> = {
+      ArrowRight: current + step,
+      ArrowUp: current + step,
+      ArrowLeft: current - step,
+      ArrowDown: current - step,
+      Home: step,
+      End: maxRating,
+    };
+    if (e.key in keyValues) {
+      e.preventDefault();
+      setRating(keyValues[e.key]);
     }
   };
 
+  const stars = Array.from({ length: maxRating }).map((_, index) => {
+    const fill = Math.min(1, Math.max(0, displayRating - index));
+    const star = (
+      <span className="relative block">
+        <Star className={cn(sizeClasses[size], 'text-muted-foreground')} />
+        {fill > 0 && (
+          <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+            <Star className={cn(sizeClasses[size], 'text-yellow-400 fill-yellow-400')} />
+          </span>
+        )}
+      </span>
+    );
+
+    if (!interactive) {
+      return <span key={index}>{star}</span>;
+    }
+
+    return (
+      <button
+        key={index}
+        type="button"
+        tabIndex={-1}
+        onClick={(e) => setRating(valueAt(index, e))}
+        onMouseMove={(e) => setHoverRating(valueAt(index, e))}
+        className="transition-transform cursor-pointer hover:scale-110"
+      >
+        {star}
+      </button>
+    );
+  });
+
+  if (!interactive) {
+    return (
+      <div className="flex items-center gap-0.5" role="img" aria-label={`Rated ${rating} out of ${maxRating}`}>
+        {stars}
+      </div>
+    );
+  }
+
   return (
-    <div className="flex items-center gap-0.5">
-      {Array.from({ length: maxRating }).map((_, index) => (
-        <button
-          key={index}
-          type="button"
-          disabled={!interactive}
-          onClick={() => handleClick(index)}
-          className={cn(
-            'transition-colors',
-            interactive && 'cursor-pointer hover:scale-110',
-            !interactive && 'cursor-default'
-          )}
-        >
-          <Star
-            className={cn(
-              sizeClasses[size],
-              index < rating ? 'text-yellow-400 fill-yellow-400' : 'text-muted-foreground'
-            )}
-          />
-        </button>
-      ))}
+    <div
+      className="flex items-center gap-0.5 rounded-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      role="slider"
+      tabIndex={0}
+      aria-label="Rating"
+      aria-valuemin={0}
+      aria-valuemax={maxRating}
+      aria-valuenow={rating}
+      aria-valuetext={`${rating} out of ${maxRating} stars`}
+      onKeyDown={handleKeyDown}
+      onMouseLeave={() => setHoverRating(null)}
+    >
+      {stars}
     </div>
   );
 }
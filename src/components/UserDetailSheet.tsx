@@ -0,0 +1,228 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { api } from '../api';
+import { admin } from '../lib/auth-client';
+import { AuditTrail } from './AuditLog';
+import { BanHistoryList, BannedBadge } from './UserModeration';
+import { ReviewContent } from './ReviewContent';
+import { StarRating } from './StarRating';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Library, LogOut, MessageSquare, Monitor, Shield } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AdminUser, ReviewStatus } from '../types';
+
+const statusVariants: Record<ReviewStatus, 'secondary' | 'outline' | 'destructive'> = {
+  approved: 'secondary',
+  pending: 'outline',
+  rejected: 'destructive',
+};
+
+export function UserDetailSheet({
+  user,
+  onOpenChange,
+}: {
+  user: AdminUser | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Sheet open={user !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {user && <UserDetail user={user} />}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function UserDetail({ user }: { user: AdminUser }) {
+  const queryClient = useQueryClient();
+
+  const { data: detailData, isLoading: detailLoading } = useQuery({
+    queryKey: ['adminUserDetail', user.id],
+    queryFn: () => api.getAdminUserDetail(user.id),
+  });
+
+  const { data: sessionsData, isLoading: sessionsLoading } = useQuery({
+    queryKey: ['adminUserSessions', user.id],
+    queryFn: async () => {
+      const result = await admin.listUserSessions({ userId: user.id });
+      return result.data;
+    },
+  });
+
+  const revokeSessionsMutation = useMutation({
+    mutationFn: async () => {
+      const result = await admin.revokeUserSessions({ userId: user.id });
+      if (result.error) throw new Error(result.error.message);
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success('All sessions revoked');
+      queryClient.invalidateQueries({ queryKey: ['adminUserSessions', user.id] });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const detail = detailData?.data;
+  const sessions = sessionsData?.sessions ?? [];
+
+  return (
+    <>
+      <SheetHeader>
+        <SheetTitle className="flex flex-wrap items-center gap-2">
+          {user.name || user.username}
+          {user.role === 'admin' && (
+            <Badge variant="default" className="gap-1">
+              <Shield className="h-3 w-3" />
+              Admin
+            </Badge>
+          )}
+          {user.banned && <BannedBadge banExpires={user.banExpires} />}
+        </SheetTitle>
+        <SheetDescription>
+          {user.email} · @{user.username}
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="px-4 pb-6 space-y-6">
+        {/* Overview */}
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="rounded-md bg-secondary/50 p-3">
+            <p className="text-xs text-muted-foreground">Joined</p>
+            <p className="font-medium text-sm">{format(new Date(user.createdAt), 'MMM d, yyyy')}</p>
+          </div>
+          <div className="rounded-md bg-secondary/50 p-3">
+            <p className="text-xs text-muted-foreground flex items-center justify-center gap-1">
+              <Library className="h-3 w-3" />
+              Library
+            </p>
+            <p className="font-medium text-sm">{detailLoading ? '…' : (detail?.libraryCount ?? 0)}</p>
+          </div>
+          <div className="rounded-md bg-secondary/50 p-3">
+            <p className="text-xs text-muted-foreground flex items-center justify-center gap-1">
+              <MessageSquare className="h-3 w-3" />
+              Reviews
+            </p>
+            <p className="font-medium text-sm">{detailLoading ? '…' : (detail?.reviews.length ?? 0)}</p>
+          </div>
+        </div>
+
+        {/* Reviews */}
+        <section className="space-y-2">
+          <h3 className="font-semibold">Reviews</h3>
+          {detailLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : !detail || detail.reviews.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No reviews.</p>
+          ) : (
+            <div className="space-y-2">
+              {detail.reviews.map((review) => (
+                <div key={review.id} className="p-3 rounded-md border">
+                  <div className="flex items-center justify-between gap-2">
+                    <Link
+                      to={`/book${review.workKey}`}
+                      className="font-medium text-sm hover:text-primary transition-colors line-clamp-1"
+                    >
+                      {review.bookTitle}
+                    </Link>
+                    <Badge variant={statusVariants[review.status]} className="capitalize shrink-0">
+                      {review.status}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                    <StarRating rating={review.rating} size="sm" />
+                    <span>{new Date(review.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  <ReviewContent
+                    content={review.content}
+                    revealSpoilers
+                    className="text-sm text-muted-foreground line-clamp-3 mt-1"
+                  />
+                  {review.status === 'rejected' && review.rejectionReason && (
+                    <p className="mt-2 text-xs text-destructive">Rejected: {review.rejectionReason}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Sessions */}
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">Active Sessions</h3>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={sessions.length === 0 || revokeSessionsMutation.isPending}
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Revoke All
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Revoke all sessions?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {user.name || user.email} will be signed out on every device.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => revokeSessionsMutation.mutate()}>Revoke</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+          {sessionsLoading ? (
+            <Skeleton className="h-12 w-full" />
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active sessions.</p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div key={session.id} className="p-3 rounded-md border flex gap-3">
+                  <Monitor className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                  <div className="min-w-0 text-xs text-muted-foreground">
+                    <p className="text-sm text-foreground truncate">{session.userAgent || 'Unknown device'}</p>
+                    <p>
+                      {session.ipAddress || 'Unknown IP'} · Signed in {new Date(session.createdAt).toLocaleString()}
+                    </p>
+                    <p>Expires {new Date(session.expiresAt).toLocaleString()}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Moderation history */}
+        <section className="space-y-2">
+          <h3 className="font-semibold">Ban History</h3>
+          <BanHistoryList userId={user.id} />
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="font-semibold">Admin Actions</h3>
+          <AuditTrail targetType="user" targetId={user.id} />
+        </section>
+      </div>
+    </>
+  );
+}
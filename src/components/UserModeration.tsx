@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { api } from '../api';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Ban, History, UserX } from 'lucide-react';
+
+type BanDuration = '1d' | '7d' | '30d' | 'custom' | 'permanent';
+
+const DAY_SECONDS = 60 * 60 * 24;
+
+const banDurationLabels: Record<BanDuration, string> = {
+  '1d': '1 day',
+  '7d': '7 days',
+  '30d': '30 days',
+  custom: 'Custom',
+  permanent: 'Permanent',
+};
+
+const banDurationDays: Partial<Record<BanDuration, number>> = { '1d': 1, '7d': 7, '30d': 30 };
+
+// Better Auth lifts an expired ban on the user's next sign-in, so `banned` can outlive banExpires
+export function BannedBadge({ banExpires }: { banExpires?: string | Date | null }) {
+  const expires = banExpires ? new Date(banExpires) : null;
+  const isExpired = expires !== null && expires <= new Date();
+
+  return (
+    <Badge variant={isExpired ? 'outline' : 'destructive'} className="gap-1">
+      <Ban className="h-3 w-3" />
+      {expires === null
+        ? 'Banned'
+        : isExpired
+          ? 'Ban expired'
+          : `Banned · ${formatDistanceToNow(expires)} left`}
+    </Badge>
+  );
+}
+
+export function BanUserDialog({
+  userLabel,
+  disabled,
+  onBan,
+}: {
+  userLabel: string;
+  disabled?: boolean;
+  onBan: (reason: string, expiresInSeconds?: number) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('Violated community guidelines');
+  const [duration, setDuration] = useState<BanDuration>('7d');
+  const [customDays, setCustomDays] = useState('14');
+
+  const days = duration === 'custom' ? Number(customDays) : banDurationDays[duration];
+  const isCustomInvalid = duration === 'custom' && !(Number.isInteger(days) && (days ?? 0) > 0);
+
+  const handleBan = () => {
+    onBan(reason.trim(), days ? days * DAY_SECONDS : undefined);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={disabled}>
+          <UserX className="h-4 w-4 mr-1" />
+          Ban
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ban User</DialogTitle>
+          <DialogDescription>
+            {userLabel} will be logged out and unable to sign in until the ban ends.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ban-duration">Duration</Label>
+            <Select value={duration} onValueChange={(v) => setDuration(v as BanDuration)}>
+              <SelectTrigger id="ban-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(banDurationLabels) as BanDuration[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {banDurationLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {duration === 'custom' && (
+            <div className="space-y-2">
+              <Label htmlFor="ban-custom-days">Days</Label>
+              <Input
+                id="ban-custom-days"
+                type="number"
+                min={1}
+                value={customDays}
+                onChange={(e) => setCustomDays(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="ban-reason">Reason</Label>
+            <Input
+              id="ban-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleBan} disabled={!reason.trim() || isCustomInvalid}>
+            Ban User
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function BanHistoryDialog({ userId }: { userId: string }) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" aria-label="Ban history">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Ban history</DialogTitle>
+          <DialogDescription>Previous bans and unbans for this account.</DialogDescription>
+        </DialogHeader>
+        <BanHistoryList userId={userId} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function BanHistoryList({ userId }: { userId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['banHistory', userId],
+    queryFn: () => api.getUserBanHistory(userId),
+  });
+
+  const history = data?.data.history ?? [];
+
+  if (isLoading) return <Skeleton className="h-16 w-full" />;
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">This user has never been banned.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {history.map((entry) => (
+        <div key={entry.id} className="p-3 rounded-md bg-secondary/50">
+          <div className="flex items-center gap-2">
+            <Badge variant={entry.action === 'ban' ? 'destructive' : 'secondary'}>
+              {entry.action === 'ban' ? 'Banned' : 'Unbanned'}
+            </Badge>
+            {entry.action === 'ban' && (
+              <span className="text-xs text-muted-foreground">
+                {entry.expiresAt ? `until ${new Date(entry.expiresAt).toLocaleString()}` : 'permanently'}
+              </span>
+            )}
+          </div>
+          {entry.reason && <p className="text-sm whitespace-pre-wrap mt-2">{entry.reason}</p>}
+          <p className="text-xs text-muted-foreground mt-1">
+            {entry.actorName} · {new Date(entry.createdAt).toLocaleString()}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,12 +1,12 @@
 import { type ReactNode, useEffect } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { useSession, signIn, signUp, signOut } from '../lib/auth-client';
+import { useSession, signIn, signUp, signOut, admin } from '../lib/auth-client';
 import type { User } from '../types';
 import { AuthContext } from '@/hooks/use-auth';
 import { api } from '../api';
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const { data: session, isPending: isLoading } = useSession();
+  const { data: session, isPending: isLoading, refetch: refetchSession } = useSession();
   const queryClient = useQueryClient();
 
   const user: User | null = session?.user ? {
@@ -15,9 +15,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     email: session.user.email,
     username: (session.user as unknown as { username: string }).username,
     role: (session.user as unknown as { role: 'user' | 'admin' }).role,
+    isPrivate: (session.user as unknown as { isPrivate?: boolean }).isPrivate ?? false,
   } : null;
 
   const isAuthenticated = !!user;
+  const isImpersonating = !!(session?.session as { impersonatedBy?: string | null } | undefined)?.impersonatedBy;
 
   // Prefetch library data when user logs in
   useEffect(() => {
@@ -64,6 +66,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     queryClient.clear();
   };
 
+  // Better Auth doesn't refresh the session atom for impersonation endpoints, so refetch it
+  // ourselves; the cache is cleared in between so no data leaks across the identity switch.
+  // The server records both endpoints in the audit log as user.impersonate / user.stop_impersonating.
+  const impersonate = async (userId: string) => {
+    const result = await admin.impersonateUser({ userId });
+    if (result.error) {
+      throw new Error(result.error.message || 'Impersonation failed');
+    }
+    queryClient.clear();
+    await refetchSession();
+  };
+
+  const stopImpersonating = async () => {
+    const result = await admin.stopImpersonating();
+    if (result.error) {
+      throw new Error(result.error.message || 'Failed to stop impersonating');
+    }
+    queryClient.clear();
+    await refetchSession();
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -74,6 +97,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         login,
         register,
         logout,
+        isImpersonating,
+        impersonate,
+        stopImpersonating,
       }}
     >
       {children}
@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { fetchAllLibraryItems, getFinishedDate } from '@/lib/library';
+
+// Share of the year that has elapsed, used to work out where the reader "should" be
+function elapsedFraction(year: number) {
+  const now = new Date();
+  if (year < now.getFullYear()) return 1;
+  if (year > now.getFullYear()) return 0;
+  const start = new Date(year, 0, 1).getTime();
+  const end = new Date(year + 1, 0, 1).getTime();
+  return (now.getTime() - start) / (end - start);
+}
+
+export function useReadingChallenge(year: number) {
+  const { data: goalData, isLoading: goalLoading } = useQuery({
+    queryKey: ['readingGoal', year],
+    queryFn: () => api.getReadingGoal(year),
+  });
+
+  const { data: readItems, isLoading: itemsLoading } = useQuery({
+    queryKey: ['library', 'all-read'],
+    queryFn: () => fetchAllLibraryItems({ status: 'read' }),
+  });
+
+  const booksRead = (readItems ?? [])
+    .filter((item) => getFinishedDate(item)?.getFullYear() === year)
+    .sort((a, b) => getFinishedDate(b)!.getTime() - getFinishedDate(a)!.getTime());
+
+  const target = goalData?.data.goal?.target ?? null;
+  const expected = target ? Math.floor(target * elapsedFraction(year)) : 0;
+
+  return {
+    target,
+    booksRead,
+    expected,
+    // Positive when ahead of schedule, negative when behind
+    scheduleDelta: booksRead.length - expected,
+    percent: target ? Math.min(100, Math.round((booksRead.length / target) * 100)) : 0,
+    isLoading: goalLoading || itemsLoading,
+  };
+}
+
+export function useSetReadingGoal(year: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (target: number) => api.setReadingGoal(year, target),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['readingGoal', year] });
+    },
+  });
+}
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  getLocalDrafts,
+  normalizeDraftKey,
+  removeLocalDraft,
+  saveLocalDraft,
+  subscribeToLocalDrafts,
+} from '@/lib/review-drafts';
+import type { ReviewDraft } from '../types';
+
+const SERVER_SAVE_DELAY = 2000;
+
+// Local drafts win ties so the device you're typing on is never overwritten by a stale copy
+function newestDraft(a?: ReviewDraft, b?: ReviewDraft) {
+  if (!a || !b) return a ?? b;
+  return new Date(b.updatedAt) > new Date(a.updatedAt) ? b : a;
+}
+
+export function useReviewDrafts() {
+  const { isAuthenticated, user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const localDrafts = useSyncExternalStore(subscribeToLocalDrafts, () => getLocalDrafts(userId));
+
+  const { data: serverData, isLoading } = useQuery({
+    queryKey: ['reviewDrafts'],
+    queryFn: () => api.getReviewDrafts(),
+    enabled: isAuthenticated,
+  });
+
+  const merged = new Map<string, ReviewDraft>();
+  for (const [key, draft] of Object.entries(localDrafts)) {
+    merged.set(key, draft);
+  }
+  for (const draft of serverData?.data.drafts ?? []) {
+    const key = normalizeDraftKey(draft.workKey);
+    merged.set(key, newestDraft(merged.get(key), draft)!);
+  }
+
+  const drafts = [...merged.values()].sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+
+  const discardDraft = useCallback(
+    async (workKey: string) => {
+      if (!userId) return;
+      removeLocalDraft(userId, workKey);
+      // Drop the cached server copy now, or it would be picked up again before the refetch lands
+      const key = normalizeDraftKey(workKey);
+      queryClient.setQueryData<Awaited<ReturnType<typeof api.getReviewDrafts>>>(['reviewDrafts'], (old) =>
+        old && {
+          ...old,
+          data: { ...old.data, drafts: old.data.drafts.filter((d) => normalizeDraftKey(d.workKey) !== key) },
+        }
+      );
+      try {
+        await api.deleteReviewDraft(workKey);
+      } catch {
+        // The server copy may never have been saved
+      }
+      queryClient.invalidateQueries({ queryKey: ['reviewDrafts'] });
+    },
+    [userId, queryClient]
+  );
+
+  return { drafts, discardDraft, isLoading };
+}
+
+export function useReviewDraft(workKey: string, bookTitle?: string, coverId?: number | null) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const { drafts, discardDraft, isLoading } = useReviewDrafts();
+  const pendingServerSave = useRef<ReviewDraft | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const key = normalizeDraftKey(workKey);
+  const draft = drafts.find((d) => normalizeDraftKey(d.workKey) === key);
+
+  const flushServerSave = useCallback(() => {
+    clearTimeout(timer.current);
+    const pending = pendingServerSave.current;
+    pendingServerSave.current = null;
+    if (pending) {
+      // Server sync is best-effort; the local copy is always written first
+      api.saveReviewDraft(pending).catch(() => {});
+    }
+  }, []);
+
+  const saveDraft = useCallback(
+    (values: { rating: number; content: string; hasSpoilers: boolean }) => {
+      if (!bookTitle || !userId) return;
+      const next: ReviewDraft = {
+        workKey: `/works/${key}`,
+        bookTitle,
+        coverId,
+        ...values,
+        updatedAt: new Date().toISOString(),
+      };
+      saveLocalDraft(userId, next);
+
+      pendingServerSave.current = next;
+      clearTimeout(timer.current);
+      timer.current = setTimeout(flushServerSave, SERVER_SAVE_DELAY);
+    },
+    [bookTitle, coverId, key, userId, flushServerSave]
+  );
+
+  const clearDraft = useCallback(() => {
+    clearTimeout(timer.current);
+    pendingServerSave.current = null;
+    return discardDraft(workKey);
+  }, [discardDraft, workKey]);
+
+  // Don't lose the last few keystrokes when navigating away mid-debounce
+  useEffect(() => flushServerSave, [flushServerSave]);
+
+  return { draft, saveDraft, clearDraft, isLoading };
+}
+
+export function useUnsavedChangesWarning(hasUnsavedChanges: boolean) {
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [hasUnsavedChanges]);
+}
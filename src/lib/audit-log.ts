@@ -0,0 +1,49 @@
+import { format, parseISO } from 'date-fns';
+import { api } from '../api';
+import { toCsv } from '@/lib/csv';
+import type { AuditAction, AuditLogEntry } from '../types';
+
+const PAGE_SIZE = 100;
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  'review.approve': 'Approved review',
+  'review.reject': 'Rejected review',
+  'report.dismiss': 'Dismissed reports',
+  'report.hide': 'Hid reported review',
+  'comment.approve': 'Approved comment',
+  'comment.reject': 'Rejected comment',
+  'user.ban': 'Banned user',
+  'user.unban': 'Unbanned user',
+  'user.set_role': 'Changed role',
+  'user.remove': 'Deleted user',
+  'user.impersonate': 'Started impersonating',
+  'user.stop_impersonating': 'Stopped impersonating',
+};
+
+export async function fetchAllAuditLogEntries(params: { actorId?: string; action?: string }) {
+  const entries: AuditLogEntry[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const { data } = await api.getAuditLog({ ...params, page, limit: PAGE_SIZE });
+    entries.push(...data.entries);
+    totalPages = data.pagination.totalPages;
+    page++;
+  } while (page <= totalPages);
+  return entries;
+}
+
+export function toAuditLogCsv(entries: AuditLogEntry[]) {
+  return toCsv([
+    ['Timestamp', 'Actor', 'Action', 'Target Type', 'Target ID', 'Target', 'Reason'],
+    ...entries.map((entry) => [
+      format(parseISO(entry.createdAt), 'yyyy-MM-dd HH:mm:ss'),
+      entry.actorName,
+      auditActionLabels[entry.action] ?? entry.action,
+      entry.targetType,
+      entry.targetId,
+      entry.targetLabel,
+      entry.reason ?? '',
+    ]),
+  ]);
+}
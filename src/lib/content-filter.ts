@@ -0,0 +1,86 @@
+import type { ContentRule, ContentRuleInput, ContentRuleType, RuleMatch } from '../types';
+
+// Mirrors the server's evaluation so rules can be tried out before saving them
+
+export const ruleTypeLabels: Record<ContentRuleType, string> = {
+  banned_words: 'Banned words',
+  regex: 'Pattern',
+  links: 'Links',
+  min_length: 'Minimum length',
+  new_account: 'New account',
+};
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|co|ru|xyz|info|biz)\b\S*/gi;
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findAll(content: string, pattern: RegExp) {
+  const ranges: [number, number][] = [];
+  for (const match of content.matchAll(pattern)) {
+    // Zero-width matches can't be highlighted and would flag every review
+    if (match[0].length > 0) ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+export function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern, 'gi');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function evaluateRule(
+  rule: ContentRuleInput,
+  sample: { content: string; accountAgeDays?: number }
+): [number, number][] | null {
+  const { content } = sample;
+
+  switch (rule.type) {
+    case 'banned_words': {
+      const words = (rule.words ?? []).map((w) => w.trim()).filter(Boolean);
+      if (words.length === 0) return null;
+      // Lookarounds rather than \b, which never matches next to entries like "f*ck" or "@handle"
+      const ranges = findAll(content, new RegExp(`(?<!\\w)(?:${words.map(escapeRegExp).join('|')})(?!\\w)`, 'gi'));
+      return ranges.length > 0 ? ranges : null;
+    }
+    case 'regex': {
+      if (!rule.pattern || !isValidPattern(rule.pattern)) return null;
+      const ranges = findAll(content, new RegExp(rule.pattern, 'gi'));
+      return ranges.length > 0 ? ranges : null;
+    }
+    case 'links': {
+      const ranges = findAll(content, LINK_PATTERN);
+      return ranges.length > 0 ? ranges : null;
+    }
+    case 'min_length':
+      return content.trim().length < (rule.minLength ?? 0) ? [] : null;
+    case 'new_account':
+      return sample.accountAgeDays !== undefined && sample.accountAgeDays < (rule.maxAccountAgeDays ?? 0) ? [] : null;
+  }
+}
+
+export function evaluateRules(rules: ContentRule[], sample: { content: string; accountAgeDays?: number }) {
+  const matches: RuleMatch[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const ranges = evaluateRule(rule, sample);
+    if (ranges) matches.push({ ruleId: rule.id, ruleName: rule.name, type: rule.type, ranges });
+  }
+  return matches;
+}
+
+// A window of text around a match, for showing flagged words in context
+export function matchSnippet(content: string, [start, end]: [number, number], context = 40) {
+  const from = Math.max(0, start - context);
+  const to = Math.min(content.length, end + context);
+  return {
+    before: (from > 0 ? '…' : '') + content.slice(from, start),
+    match: content.slice(start, end),
+    after: content.slice(end, to) + (to < content.length ? '…' : ''),
+  };
+}
@@ -0,0 +1,70 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Word-level diff via longest common subsequence. Whitespace is kept as its own
+// token so the joined output reproduces both inputs exactly.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const beforeTokens = before.split(/(\s+)/).filter(Boolean);
+  const afterTokens = after.split(/(\s+)/).filter(Boolean);
+
+  // Edits are usually local, so strip the unchanged ends before building the quadratic table
+  let prefix = 0;
+  while (
+    prefix < beforeTokens.length &&
+    prefix < afterTokens.length &&
+    beforeTokens[prefix] === afterTokens[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < beforeTokens.length - prefix &&
+    suffix < afterTokens.length - prefix &&
+    beforeTokens[beforeTokens.length - 1 - suffix] === afterTokens[afterTokens.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const a = beforeTokens.slice(prefix, beforeTokens.length - suffix);
+  const b = afterTokens.slice(prefix, afterTokens.length - suffix);
+
+  // lcs[i][j] = length of the LCS of a[i:] and b[j:]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  push('equal', beforeTokens.slice(0, prefix).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  push('equal', beforeTokens.slice(beforeTokens.length - suffix).join(''));
+
+  return parts.filter((part) => part.text);
+}
@@ -0,0 +1,150 @@
+import { parseCsvRecords, toCsv } from './csv';
+import type { LibraryItem, LibraryStatus, Review, Shelf } from '../types';
+
+export interface GoodreadsRow {
+  goodreadsId: string;
+  title: string;
+  author: string;
+  isbn: string | null;
+  rating: number;
+  review: string;
+  hasSpoilers: boolean;
+  status: LibraryStatus;
+  dateRead: string | null;
+  dateAdded: string | null;
+}
+
+const shelfToStatus: Record<string, LibraryStatus> = {
+  'read': 'read',
+  'currently-reading': 'reading',
+  'to-read': 'want_to_read',
+};
+
+const statusToShelf: Record<LibraryStatus, string> = {
+  read: 'read',
+  reading: 'currently-reading',
+  want_to_read: 'to-read',
+};
+
+// Goodreads wraps ISBNs as ="0439023483" to stop spreadsheets mangling them
+function cleanIsbn(value: string | undefined) {
+  const isbn = (value ?? '').replace(/[="\s-]/g, '');
+  return isbn || null;
+}
+
+// Goodreads dates are yyyy/MM/dd
+function cleanDate(value: string | undefined) {
+  const match = (value ?? '').trim().match(/^(\d{4})\/(\d{2})\/(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// Goodreads review bodies are HTML with <br/> line breaks and entities like &amp;.
+// DOMParser strips the tags and decodes entities without running anything.
+function cleanReview(value: string | undefined) {
+  const html = (value ?? '').replace(/<br\s*\/?>/gi, '\n');
+  const text = new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+  return text.trim();
+}
+
+export function parseGoodreadsCsv(text: string): GoodreadsRow[] {
+  const records = parseCsvRecords(text);
+  if (records.length > 0 && !('Exclusive Shelf' in records[0] && 'Title' in records[0])) {
+    throw new Error('This does not look like a Goodreads library export.');
+  }
+
+  return records
+    .filter((record) => record['Title']?.trim())
+    .map((record) => ({
+      goodreadsId: record['Book Id'] ?? '',
+      title: record['Title'].trim(),
+      author: (record['Author'] ?? '').trim(),
+      isbn: cleanIsbn(record['ISBN13']) ?? cleanIsbn(record['ISBN']),
+      rating: parseInt(record['My Rating'], 10) || 0,
+      review: cleanReview(record['My Review']),
+      hasSpoilers: (record['Spoiler'] ?? '').trim().toLowerCase() === 'true',
+      status: shelfToStatus[(record['Exclusive Shelf'] ?? '').trim()] ?? 'want_to_read',
+      dateRead: cleanDate(record['Date Read']),
+      dateAdded: cleanDate(record['Date Added']),
+    }));
+}
+
+const exportColumns = [
+  'Book Id', 'Title', 'Author', 'Author l-f', 'Additional Authors', 'ISBN', 'ISBN13',
+  'My Rating', 'Average Rating', 'Publisher', 'Binding', 'Number of Pages', 'Year Published',
+  'Original Publication Year', 'Date Read', 'Date Added', 'Bookshelves', 'Bookshelves with positions',
+  'Exclusive Shelf', 'My Review', 'Spoiler', 'Private Notes', 'Read Count', 'Owned Copies',
+];
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  return date.toISOString().slice(0, 10).replace(/-/g, '/');
+}
+
+function authorLastFirst(name: string) {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return name;
+  const last = parts.pop();
+  return `${last}, ${parts.join(' ')}`;
+}
+
+// Build a CSV in the Goodreads export layout so it can be imported back into Goodreads
+export function toGoodreadsCsv(items: LibraryItem[], reviews: Review[], shelves: Shelf[] = []) {
+  const reviewsByWork = new Map(reviews.map((review) => [review.workKey, review]));
+  const shelfNames = new Map(shelves.map((shelf) => [shelf.id, shelf.name]));
+
+  const rows = items.map((item) => {
+    const review = reviewsByWork.get(item.workKey);
+    reviewsByWork.delete(item.workKey);
+    const customShelves = (item.shelfIds ?? [])
+      .map((id) => shelfNames.get(id))
+      .filter((name): name is string => !!name);
+    return {
+      title: item.title,
+      author: item.authorName ?? '',
+      status: item.status,
+      dateRead: item.finishedAt ?? null,
+      dateAdded: item.createdAt,
+      shelves: customShelves,
+      readCount: item.readCount ?? (item.status === 'read' ? 1 : 0),
+      review,
+    };
+  });
+
+  // Reviewed books that were never added to the library
+  for (const review of reviewsByWork.values()) {
+    rows.push({
+      title: review.bookTitle,
+      author: '',
+      status: 'read',
+      dateRead: null,
+      dateAdded: review.createdAt,
+      shelves: [],
+      readCount: 1,
+      review,
+    });
+  }
+
+  return toCsv([
+    exportColumns,
+    ...rows.map((row) => {
+      const exclusiveShelf = statusToShelf[row.status];
+      const values: Record<string, string> = {
+        'Title': row.title,
+        'Author': row.author,
+        'Author l-f': row.author ? authorLastFirst(row.author) : '',
+        'My Rating': row.review ? String(Math.round(row.review.rating)) : '0', // Goodreads only takes whole stars
+        'Date Read': formatDate(row.dateRead),
+        'Date Added': formatDate(row.dateAdded),
+        'Bookshelves': [exclusiveShelf, ...row.shelves].join(', '),
+        'Exclusive Shelf': exclusiveShelf,
+        'My Review': row.review?.content ?? '',
+        'Spoiler': row.review?.hasSpoilers ? 'true' : '',
+        'Read Count': String(row.readCount),
+        'Owned Copies': '0',
+      };
+      return exportColumns.map((column) => values[column] ?? '');
+    }),
+  ]);
+}
@@ -0,0 +1,25 @@
+import { parseISO } from 'date-fns';
+import { api } from '../api';
+import type { LibraryItem } from '../types';
+
+const PAGE_SIZE = 100;
+
+// Page through the whole library; getLibrary caps each page server-side
+export async function fetchAllLibraryItems(params?: { status?: string; shelfId?: string }) {
+  const items: LibraryItem[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const { data } = await api.getLibrary({ ...params, page, limit: PAGE_SIZE, sortBy: 'createdAt', sortOrder: 'asc' });
+    items.push(...data.items);
+    totalPages = data.pagination.totalPages;
+    page++;
+  } while (page <= totalPages);
+  return items;
+}
+
+// Items read before reading sessions existed have no finish date, so fall back to the last status change
+export function getFinishedDate(item: LibraryItem) {
+  if (item.status !== 'read') return null;
+  return parseISO(item.finishedAt ?? item.updatedAt);
+}
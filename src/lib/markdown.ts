@@ -0,0 +1,132 @@
+// A deliberately small Markdown subset for reviews: **bold**, *italics*, > quotes,
+// bulleted/numbered lists and inline ||spoiler|| segments. The parser only produces
+// a node tree, which is rendered as React elements, so raw HTML never reaches the DOM.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'spoiler'; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] };
+
+const inlineDelimiters: Array<{ marker: string; type: 'strong' | 'em' | 'spoiler' }> = [
+  { marker: '||', type: 'spoiler' },
+  { marker: '**', type: 'strong' },
+  { marker: '__', type: 'strong' },
+  { marker: '*', type: 'em' },
+  { marker: '_', type: 'em' },
+];
+
+const unorderedItem = /^\s*[-*+]\s+(.*)$/;
+const orderedItem = /^\s*\d+[.)]\s+(.*)$/;
+const quoteLine = /^\s*>\s?(.*)$/;
+
+function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    // Backslash escapes a marker character so it renders literally
+    if (text[i] === '\\' && i + 1 < text.length && '*_|\\>'.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    const delimiter = inlineDelimiters.find(({ marker }) => text.startsWith(marker, i));
+    // Underscores inside words (snake_case) are never emphasis
+    const isIntraword = delimiter?.marker.startsWith('_') && i > 0 && /\w/.test(text[i - 1]);
+    if (delimiter && !isIntraword) {
+      const { marker, type } = delimiter;
+      const close = text.indexOf(marker, i + marker.length);
+      const inner = close === -1 ? '' : text.slice(i + marker.length, close);
+      if (inner && inner.trim() === inner) {
+        flush();
+        nodes.push({ type, children: parseInline(inner) });
+        i = close + marker.length;
+        continue;
+      }
+    }
+
+    buffer += text[i];
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+}
+
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i += 1;
+      continue;
+    }
+
+    if (quoteLine.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && quoteLine.test(lines[i])) {
+        quoted.push(lines[i].replace(quoteLine, '$1'));
+        i += 1;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const listPattern = unorderedItem.test(line) ? unorderedItem : orderedItem.test(line) ? orderedItem : null;
+    if (listPattern) {
+      const items: InlineNode[][] = [];
+      while (i < lines.length && listPattern.test(lines[i])) {
+        items.push(parseInline(lines[i].replace(listPattern, '$1')));
+        i += 1;
+      }
+      blocks.push({ type: 'list', ordered: listPattern === orderedItem, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !quoteLine.test(lines[i]) &&
+      !unorderedItem.test(lines[i]) &&
+      !orderedItem.test(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i += 1;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export function hasInlineSpoilers(source: string): boolean {
+  const containsSpoiler = (nodes: InlineNode[]): boolean =>
+    nodes.some((node) => node.type === 'spoiler' || (node.type !== 'text' && containsSpoiler(node.children)));
+
+  const check = (blocks: BlockNode[]): boolean =>
+    blocks.some((block) => {
+      if (block.type === 'paragraph') return containsSpoiler(block.children);
+      if (block.type === 'quote') return check(block.children);
+      return block.items.some(containsSpoiler);
+    });
+
+  return check(parseMarkdown(source));
+}
@@ -0,0 +1,10 @@
+import type { ReportReason } from '../types';
+
+export const reportReasonLabels: Record<ReportReason, string> = {
+  spam: 'Spam or advertising',
+  harassment: 'Harassment or personal attacks',
+  hate_speech: 'Hate speech',
+  spoilers: 'Unmarked spoilers',
+  off_topic: 'Not about this book',
+  other: 'Something else',
+};
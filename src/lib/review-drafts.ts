@@ -0,0 +1,73 @@
+import type { ReviewDraft } from '../types';
+
+// Drafts are kept per account so switching users (or impersonating one) never mixes them up
+function storageKey(userId: string) {
+  return `reprint:review-drafts:${userId}`;
+}
+
+type DraftMap = Record<string, ReviewDraft>;
+
+const NO_DRAFTS: DraftMap = {};
+const listeners = new Set<() => void>();
+let cache: { userId: string; drafts: DraftMap } | null = null;
+
+// Book routes give us "works/OL123W" while stored reviews use "/works/OL123W"
+export function normalizeDraftKey(workKey: string) {
+  return workKey.replace(/^\//, '').replace(/^works\//, '');
+}
+
+function read(userId: string): DraftMap {
+  if (cache?.userId === userId) return cache.drafts;
+  let drafts: DraftMap;
+  try {
+    const saved = localStorage.getItem(storageKey(userId));
+    drafts = saved ? (JSON.parse(saved) as DraftMap) : {};
+  } catch {
+    drafts = {};
+  }
+  cache = { userId, drafts };
+  return drafts;
+}
+
+function write(userId: string, drafts: DraftMap) {
+  cache = { userId, drafts };
+  if (Object.keys(drafts).length > 0) {
+    localStorage.setItem(storageKey(userId), JSON.stringify(drafts));
+  } else {
+    localStorage.removeItem(storageKey(userId));
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToLocalDrafts(listener: () => void) {
+  listeners.add(listener);
+
+  // Keep other tabs in sync
+  const onStorage = (e: StorageEvent) => {
+    if (!cache || e.key !== storageKey(cache.userId)) return;
+    cache = null;
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+export function getLocalDrafts(userId: string | undefined): DraftMap {
+  return userId ? read(userId) : NO_DRAFTS;
+}
+
+export function saveLocalDraft(userId: string, draft: ReviewDraft) {
+  write(userId, { ...read(userId), [normalizeDraftKey(draft.workKey)]: draft });
+}
+
+export function removeLocalDraft(userId: string, workKey: string) {
+  const key = normalizeDraftKey(workKey);
+  if (!(key in read(userId))) return;
+  const drafts = { ...read(userId) };
+  delete drafts[key];
+  write(userId, drafts);
+}
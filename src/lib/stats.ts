@@ -0,0 +1,88 @@
+import { differenceInCalendarDays, format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { getFinishedDate } from './library';
+import type { LibraryItem, RatingBreakdown, Review } from '../types';
+
+export interface CountEntry {
+  label: string;
+  count: number;
+}
+
+export interface ReadingStats {
+  totalRead: number;
+  booksPerMonth: CountEntry[];
+  ratingBreakdown: RatingBreakdown;
+  ratingCount: number;
+  averageRating: number | null;
+  topAuthors: CountEntry[];
+  topSubjects: CountEntry[];
+  averageDaysToFinish: number | null;
+  fastestFinish: { item: LibraryItem; days: number } | null;
+}
+
+function topEntries(counts: Map<string, number>, limit: number): CountEntry[] {
+  return Array.from(counts, ([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, limit);
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+export function computeReadingStats(items: LibraryItem[], reviews: Review[], months = 12): ReadingStats {
+  const readItems = items.filter((item) => item.status === 'read');
+
+  // Books finished per month over the trailing window, oldest first
+  const now = new Date();
+  const monthKeys = Array.from({ length: months }, (_, i) =>
+    format(startOfMonth(subMonths(now, months - 1 - i)), 'yyyy-MM')
+  );
+  const perMonth = new Map(monthKeys.map((key) => [key, 0]));
+  for (const item of readItems) {
+    const key = format(getFinishedDate(item)!, 'yyyy-MM');
+    if (perMonth.has(key)) perMonth.set(key, perMonth.get(key)! + 1);
+  }
+
+  // Ratings use whole stars so they line up with the RatingBreakdown buckets
+  const ratingBreakdown: RatingBreakdown = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const review of reviews) {
+    const bucket = Math.min(5, Math.max(1, Math.round(review.rating))) as keyof RatingBreakdown;
+    ratingBreakdown[bucket]++;
+  }
+  const ratingTotal = reviews.reduce((sum, review) => sum + review.rating, 0);
+
+  const authors = new Map<string, number>();
+  const subjects = new Map<string, number>();
+  for (const item of readItems) {
+    if (item.authorName) increment(authors, item.authorName);
+    for (const subject of item.subjects ?? []) increment(subjects, subject);
+  }
+
+  const finishTimes = readItems
+    .filter((item) => item.startedAt && item.finishedAt)
+    .map((item) => ({
+      item,
+      days: Math.max(1, differenceInCalendarDays(parseISO(item.finishedAt!), parseISO(item.startedAt!))),
+    }));
+
+  return {
+    totalRead: readItems.length,
+    booksPerMonth: monthKeys.map((key) => ({
+      label: format(parseISO(`${key}-01`), 'MMM'),
+      count: perMonth.get(key)!,
+    })),
+    ratingBreakdown,
+    ratingCount: reviews.length,
+    averageRating: reviews.length > 0 ? ratingTotal / reviews.length : null,
+    topAuthors: topEntries(authors, 5),
+    topSubjects: topEntries(subjects, 8),
+    averageDaysToFinish:
+      finishTimes.length > 0
+        ? Math.round(finishTimes.reduce((sum, entry) => sum + entry.days, 0) / finishTimes.length)
+        : null,
+    fastestFinish: finishTimes.reduce<ReadingStats['fastestFinish']>(
+      (best, entry) => (!best || entry.days < best.days ? entry : best),
+      null
+    ),
+  };
+}
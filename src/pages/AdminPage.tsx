@@ -1,8 +1,9 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { api } from '../api';
 import { admin } from '../lib/auth-client';
+import { useAuth } from '@/hooks/use-auth';
 import { useTitle } from '@/hooks/use-title';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -10,6 +11,17 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -28,7 +40,21 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { reportReasonLabels } from '@/lib/reports';
 import { StarRating } from '../components/StarRating';
+import { AuditLogDialog, AuditLogPanel } from '../components/AuditLog';
+import { AnalyticsPanel } from '../components/AdminAnalytics';
+import { BanHistoryDialog, BannedBadge, BanUserDialog } from '../components/UserModeration';
+import { UserDetailSheet } from '../components/UserDetailSheet';
+import { ContentRulesDialog, RuleMatches } from '../components/ContentRules';
+import { ReviewContent } from '../components/ReviewContent';
+import {
+  ModerationSettingsDialog,
+  ModeratorNotesDialog,
+  RejectionTemplatesDialog,
+  RejectReviewDialog,
+  ReviewRevisionsDialog,
+} from '../components/ReviewModeration';
 import { 
   Image, 
   CheckCircle, 
@@ -37,31 +63,113 @@ import {
   Users, 
   MessageSquare, 
   Search,
-  Ban,
   Shield,
   ShieldOff,
   Trash2,
-  UserX,
   UserCheck,
+  MessagesSquare,
+  ChevronLeft,
+  ChevronRight,
+  Keyboard,
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Eye,
+  TrendingUp,
+  Flag,
+  UserSearch,
+  ScrollText,
 } from 'lucide-react';
-import type { Review } from '../types';
+import { toast } from 'sonner';
+import type { AdminComment, AdminUser, ReportedReview, Review } from '../types';
 
-interface AdminUser {
-  id: string;
-  name: string;
-  email: string;
-  username: string;
-  role: string;
-  banned: boolean | null;
-  banReason: string | null;
-  createdAt: string;
+const REVIEWS_PAGE_SIZE = 20;
+const USERS_PAGE_SIZE = 25;
+
+// Query-string keys for the users table, so searches can be bookmarked and shared
+const USER_PARAMS = ['q', 'field', 'show', 'sort', 'dir', 'page'] as const;
+
+const USER_SEARCH_FIELDS = ['email', 'name', 'username'] as const;
+const USER_FILTERS = ['all', 'admin', 'user', 'banned'] as const;
+const USER_SORTS = ['createdAt', 'name'] as const;
+
+type UserSearchField = (typeof USER_SEARCH_FIELDS)[number];
+type UserFilter = (typeof USER_FILTERS)[number];
+type UserSort = (typeof USER_SORTS)[number];
+
+// Hand-edited or stale links shouldn't reach Better Auth, which rejects unknown values outright
+function paramOneOf<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+const userFilterLabels: Record<UserFilter, string> = {
+  all: 'All users',
+  admin: 'Admins',
+  user: 'Regular users',
+  banned: 'Banned',
+};
+
+// Better Auth only searches email and name and accepts a single filter, so a username
+// search takes the filter slot and can't be combined with the role/ban filter
+function userListFilter(search: string, field: UserSearchField, filter: UserFilter) {
+  if (search && field === 'username') {
+    return { filterField: 'username', filterValue: search, filterOperator: 'contains' as const };
+  }
+  if (filter === 'banned') {
+    return { filterField: 'banned', filterValue: true, filterOperator: 'eq' as const };
+  }
+  if (filter !== 'all') {
+    return { filterField: 'role', filterValue: filter, filterOperator: 'eq' as const };
+  }
+  return {};
+}
+
+// Page numbers to show around the current page, with null marking a gap
+function pageWindow(page: number, totalPages: number) {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= totalPages; p++) {
+    if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+function toggleId(ids: Set<string>, id: string) {
+  const next = new Set(ids);
+  if (next.has(id)) {
+    next.delete(id);
+  } else {
+    next.add(id);
+  }
+  return next;
+}
+
+function withoutId(ids: Set<string>, id: string) {
+  if (!ids.has(id)) return ids;
+  const next = new Set(ids);
+  next.delete(id);
+  return next;
 }
 
 export function AdminPage() {
   useTitle('Admin Dashboard');
-  const [activeSection, setActiveSection] = useState<'reviews' | 'users'>('reviews');
-  const [activeTab, setActiveTab] = useState<'pending' | 'approved' | 'rejected'>('pending');
-  const [userSearch, setUserSearch] = useState('');
+  const { impersonate } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [activeSection, setActiveSection] = useState<'reviews' | 'comments' | 'users' | 'audit' | 'analytics'>(() =>
+    USER_PARAMS.some((key) => searchParams.has(key)) ? 'users' : 'reviews'
+  );
+  const [activeTab, setActiveTab] = useState<'pending' | 'approved' | 'rejected' | 'reports'>('pending');
+  const [reviewsPage, setReviewsPage] = useState(1);
+  const [selectedReviewIds, setSelectedReviewIds] = useState<Set<string>>(new Set());
+  const [focusedReviewIndex, setFocusedReviewIndex] = useState(0);
+  const [bulkAction, setBulkAction] = useState<'approve' | 'reject' | null>(null);
+  const [rejectingReviewId, setRejectingReviewId] = useState<string | null>(null);
+  const [commentsTab, setCommentsTab] = useState<'pending' | 'approved' | 'rejected'>('pending');
+  const [detailUserId, setDetailUserId] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
   const { data: statsData, isLoading: statsLoading } = useQuery({
@@ -70,22 +178,75 @@ export function AdminPage() {
   });
 
   const { data: reviewsData, isLoading: reviewsLoading } = useQuery({
-    queryKey: ['adminReviews', activeTab],
-    queryFn: () => api.getAdminReviews({ status: activeTab, limit: 50 }),
+    queryKey: ['adminReviews', activeTab, reviewsPage],
+    queryFn: () => api.getAdminReviews({ status: activeTab, page: reviewsPage, limit: REVIEWS_PAGE_SIZE }),
+    enabled: activeTab !== 'reports',
+  });
+
+  const { data: reportsData, isLoading: reportsLoading } = useQuery({
+    queryKey: ['adminReports', reviewsPage],
+    queryFn: () => api.getReviewReports(reviewsPage, REVIEWS_PAGE_SIZE),
+    enabled: activeSection === 'reviews' && activeTab === 'reports',
+  });
+
+  const pageReviews = useMemo(() => reviewsData?.data.reviews ?? [], [reviewsData]);
+  const reviewsPagination = activeTab === 'reports' ? reportsData?.data.pagination : reviewsData?.data.pagination;
+  const focusedIndex = Math.min(focusedReviewIndex, Math.max(pageReviews.length - 1, 0));
+  const selectedOnPage = pageReviews.filter((r) => selectedReviewIds.has(r.id));
+  const allOnPageSelected = pageReviews.length > 0 && selectedOnPage.length === pageReviews.length;
+
+  const { data: commentsData, isLoading: commentsLoading } = useQuery({
+    queryKey: ['adminComments', commentsTab],
+    queryFn: () => api.getAdminComments({ status: commentsTab, limit: 50 }),
+    enabled: activeSection === 'comments',
   });
 
+  const userSearch = searchParams.get('q') ?? '';
+  const userSearchField = paramOneOf(searchParams.get('field'), USER_SEARCH_FIELDS, 'email');
+  const userFilter = paramOneOf(searchParams.get('show'), USER_FILTERS, 'all');
+  const userSort = paramOneOf(searchParams.get('sort'), USER_SORTS, 'createdAt');
+  const userSortDirection = searchParams.get('dir') === 'asc' ? 'asc' : 'desc';
+  const usersPage = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const isFilterLocked = !!userSearch && userSearchField === 'username';
+
+  const userParamsWith = (updates: Partial<Record<(typeof USER_PARAMS)[number], string | null>>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    }
+    return next;
+  };
+
+  const updateUserParams = (updates: Parameters<typeof userParamsWith>[0]) => {
+    setSearchParams(userParamsWith(updates), { replace: true });
+  };
+
+  const sortUsers = (column: UserSort) => {
+    const direction =
+      column === userSort ? (userSortDirection === 'asc' ? 'desc' : 'asc') : column === 'name' ? 'asc' : 'desc';
+    updateUserParams({ sort: column, dir: direction, page: null });
+  };
+
   // Users query using Better Auth admin
   const { data: usersData, isLoading: usersLoading, refetch: refetchUsers } = useQuery({
-    queryKey: ['adminUsers', userSearch],
+    queryKey: ['adminUsers', userSearch, userSearchField, userFilter, userSort, userSortDirection, usersPage],
     queryFn: async () => {
       const result = await admin.listUsers({
         query: {
-          limit: 100,
-          ...(userSearch && {
+          limit: USERS_PAGE_SIZE,
+          offset: (usersPage - 1) * USERS_PAGE_SIZE,
+          sortBy: userSort,
+          sortDirection: userSortDirection,
+          ...(userSearch && userSearchField !== 'username' && {
             searchValue: userSearch,
-            searchField: 'email' as const,
+            searchField: userSearchField,
             searchOperator: 'contains' as const,
           }),
+          ...userListFilter(userSearch, userSearchField, isFilterLocked ? 'all' : userFilter),
         },
       });
       return result.data;
@@ -93,35 +254,168 @@ export function AdminPage() {
     enabled: activeSection === 'users',
   });
 
+  const usersTotalPages = usersData ? Math.max(1, Math.ceil(usersData.total / USERS_PAGE_SIZE)) : 1;
+
+  // The last page can empty out from under the table, e.g. after removing its only user
+  useEffect(() => {
+    if (!usersData || usersPage <= usersTotalPages) return;
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (usersTotalPages > 1) {
+          next.set('page', String(usersTotalPages));
+        } else {
+          next.delete('page');
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  }, [usersData, usersPage, usersTotalPages, setSearchParams]);
+
   const approveMutation = useMutation({
     mutationFn: (reviewId: string) => api.approveReview(reviewId),
-    onSuccess: () => {
+    onSuccess: (_, reviewId) => {
+      setSelectedReviewIds((prev) => withoutId(prev, reviewId));
       queryClient.invalidateQueries({ queryKey: ['adminReviews'] });
       queryClient.invalidateQueries({ queryKey: ['adminStats'] });
     },
   });
 
   const rejectMutation = useMutation({
-    mutationFn: (reviewId: string) => api.rejectReview(reviewId),
-    onSuccess: () => {
+    mutationFn: ({ reviewId, reason }: { reviewId: string; reason: string }) => api.rejectReview(reviewId, reason),
+    onSuccess: (_, { reviewId }) => {
+      setRejectingReviewId(null);
+      setSelectedReviewIds((prev) => withoutId(prev, reviewId));
+      queryClient.invalidateQueries({ queryKey: ['adminReviews'] });
+      queryClient.invalidateQueries({ queryKey: ['adminStats'] });
+    },
+  });
+
+  const bulkReviewMutation = useMutation({
+    mutationFn: ({ ids, action, reason }: { ids: string[]; action: 'approve' | 'reject'; reason?: string }) =>
+      api.bulkReviewAction(ids, action, reason),
+    onSuccess: (result) => {
+      toast.success(result.message);
+      setBulkAction(null);
+      setSelectedReviewIds(new Set());
       queryClient.invalidateQueries({ queryKey: ['adminReviews'] });
       queryClient.invalidateQueries({ queryKey: ['adminStats'] });
     },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const resolveReportMutation = useMutation({
+    mutationFn: ({ reviewId, action, reason }: { reviewId: string; action: 'dismiss' | 'hide'; reason?: string }) =>
+      api.resolveReviewReports(reviewId, action, reason),
+    onSuccess: (result) => {
+      toast.success(result.message);
+      setRejectingReviewId(null);
+      queryClient.invalidateQueries({ queryKey: ['adminReports'] });
+      queryClient.invalidateQueries({ queryKey: ['adminReviews'] });
+      queryClient.invalidateQueries({ queryKey: ['adminStats'] });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const viewReviewer = (review: ReportedReview['review']) => {
+    updateUserParams({ q: review.userEmail, field: 'email', show: null, page: null });
+    setActiveSection('users');
+  };
+
+  const changeReviewsTab = (tab: typeof activeTab) => {
+    setActiveTab(tab);
+    setReviewsPage(1);
+    setSelectedReviewIds(new Set());
+    setFocusedReviewIndex(0);
+  };
+
+  // Selection is per page, so bulk actions only ever touch reviews that are on screen
+  const changeReviewsPage = (page: number) => {
+    setReviewsPage(page);
+    setSelectedReviewIds(new Set());
+    setFocusedReviewIndex(0);
+  };
+
+  const toggleAllOnPage = () => {
+    setSelectedReviewIds((prev) => {
+      const next = new Set(prev);
+      pageReviews.forEach((r) => (allOnPageSelected ? next.delete(r.id) : next.add(r.id)));
+      return next;
+    });
+  };
+
+  // Keyboard triage: j/k move, x selects, a/r approve or reject the focused review
+  const isReviewActionPending = approveMutation.isPending || rejectMutation.isPending || bulkReviewMutation.isPending;
+
+  useEffect(() => {
+    if (activeSection !== 'reviews') return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.metaKey || e.ctrlKey || e.altKey || target.closest('input, textarea, select, [role="dialog"], [role="alertdialog"], [contenteditable="true"]')) {
+        return;
+      }
+
+      const focused = pageReviews[focusedIndex];
+      switch (e.key) {
+        case 'j':
+          setFocusedReviewIndex(Math.min(focusedIndex + 1, pageReviews.length - 1));
+          break;
+        case 'k':
+          setFocusedReviewIndex(Math.max(focusedIndex - 1, 0));
+          break;
+        case 'x':
+          if (focused) setSelectedReviewIds((prev) => toggleId(prev, focused.id));
+          break;
+        case 'a':
+          if (focused && activeTab !== 'approved' && !isReviewActionPending) approveMutation.mutate(focused.id);
+          break;
+        case 'r':
+          if (focused && activeTab !== 'rejected' && !isReviewActionPending) setRejectingReviewId(focused.id);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [activeSection, activeTab, pageReviews, focusedIndex, isReviewActionPending, approveMutation]);
+
+  useEffect(() => {
+    document.getElementById(`admin-review-${focusedIndex}`)?.scrollIntoView({ block: 'nearest' });
+  }, [focusedIndex]);
+
+  const commentActionMutation = useMutation({
+    mutationFn: ({ commentId, action }: { commentId: string; action: 'approve' | 'reject' }) =>
+      api.commentAction(commentId, action),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['adminComments'] });
+      queryClient.invalidateQueries({ queryKey: ['adminStats'] });
+    },
   });
 
   // User management mutations
   const banUserMutation = useMutation({
-    mutationFn: async ({ userId, reason }: { userId: string; reason?: string }) => {
-      return admin.banUser({ userId, banReason: reason });
+    mutationFn: async ({ userId, reason, expiresIn }: { userId: string; reason?: string; expiresIn?: number }) => {
+      return admin.banUser({ userId, banReason: reason, banExpiresIn: expiresIn });
+    },
+    onSuccess: (_, { userId }) => {
+      refetchUsers();
+      queryClient.invalidateQueries({ queryKey: ['banHistory', userId] });
     },
-    onSuccess: () => refetchUsers(),
   });
 
   const unbanUserMutation = useMutation({
     mutationFn: async (userId: string) => {
       return admin.unbanUser({ userId });
     },
-    onSuccess: () => refetchUsers(),
+    onSuccess: (_, userId) => {
+      refetchUsers();
+      queryClient.invalidateQueries({ queryKey: ['banHistory', userId] });
+    },
   });
 
   const setRoleMutation = useMutation({
@@ -131,6 +425,12 @@ export function AdminPage() {
     onSuccess: () => refetchUsers(),
   });
 
+  const impersonateMutation = useMutation({
+    mutationFn: (userId: string) => impersonate(userId),
+    onSuccess: () => navigate('/library'),
+    onError: (error) => toast.error(error.message),
+  });
+
   const removeUserMutation = useMutation({
     mutationFn: async (userId: string) => {
       return admin.removeUser({ userId });
@@ -143,10 +443,28 @@ export function AdminPage() {
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">Admin Dashboard</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold">Admin Dashboard</h1>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={activeSection === 'analytics' ? 'default' : 'outline'}
+            onClick={() => setActiveSection('analytics')}
+          >
+            <TrendingUp className="h-4 w-4 mr-2" />
+            Analytics
+          </Button>
+          <Button
+            variant={activeSection === 'audit' ? 'default' : 'outline'}
+            onClick={() => setActiveSection('audit')}
+          >
+            <ScrollText className="h-4 w-4 mr-2" />
+            Audit Log
+          </Button>
+        </div>
+      </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
         <Card 
           className={`cursor-pointer transition-colors ${activeSection === 'reviews' ? 'ring-2 ring-primary' : ''}`}
           onClick={() => setActiveSection('reviews')}
@@ -170,6 +488,29 @@ export function AdminPage() {
           </CardContent>
         </Card>
 
+        <Card 
+          className={`cursor-pointer transition-colors ${activeSection === 'comments' ? 'ring-2 ring-primary' : ''}`}
+          onClick={() => setActiveSection('comments')}
+        >
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Pending Comments
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {statsLoading ? (
+              <Skeleton className="h-8 w-16" />
+            ) : (
+              <div className="flex items-center gap-2">
+                <MessagesSquare className="h-5 w-5 text-yellow-500" />
+                <span className="text-3xl font-bold">
+                  {statsData?.data.pendingComments ?? 0}
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <Card 
           className={`cursor-pointer transition-colors ${activeSection === 'users' ? 'ring-2 ring-primary' : ''}`}
           onClick={() => setActiveSection('users')}
@@ -217,11 +558,16 @@ export function AdminPage() {
       {/* Reviews Moderation */}
       {activeSection === 'reviews' && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <CardTitle>Review Moderation</CardTitle>
+            <div className="flex items-center gap-2">
+              <ContentRulesDialog />
+              <RejectionTemplatesDialog />
+              <ModerationSettingsDialog />
+            </div>
           </CardHeader>
           <CardContent>
-            <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as typeof activeTab)}>
+            <Tabs value={activeTab} onValueChange={(v) => changeReviewsTab(v as typeof activeTab)}>
               <TabsList className="mb-4">
                 <TabsTrigger value="pending" className="gap-2">
                   <AlertCircle className="h-4 w-4" />
@@ -240,10 +586,19 @@ export function AdminPage() {
                   <XCircle className="h-4 w-4" />
                   Rejected
                 </TabsTrigger>
+                <TabsTrigger value="reports" className="gap-2">
+                  <Flag className="h-4 w-4" />
+                  Reports
+                  {statsData && statsData.data.openReports > 0 && (
+                    <Badge variant="destructive" className="ml-1">
+                      {statsData.data.openReports}
+                    </Badge>
+                  )}
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value={activeTab}>
-                {reviewsLoading && (
+                {(reviewsLoading || reportsLoading) && (
                   <div className="space-y-4">
                     {Array.from({ length: 3 }).map((_, i) => (
                       <div key={i} className="p-4 border rounded-lg space-y-3">
@@ -260,17 +615,214 @@ export function AdminPage() {
                   </div>
                 )}
 
-                {reviewsData && reviewsData.data.reviews.length > 0 && (
+                {reviewsData && pageReviews.length > 0 && (
+                  <>
+                    {/* Bulk actions */}
+                    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="select-all-reviews"
+                          checked={allOnPageSelected ? true : selectedOnPage.length > 0 ? 'indeterminate' : false}
+                          onCheckedChange={toggleAllOnPage}
+                        />
+                        <label htmlFor="select-all-reviews" className="text-sm cursor-pointer">
+                          {selectedOnPage.length > 0 ? `${selectedOnPage.length} selected` : 'Select all on page'}
+                        </label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="hidden md:flex items-center gap-1 text-xs text-muted-foreground mr-2">
+                          <Keyboard className="h-3 w-3" />
+                          j/k move · x select · a approve · r reject
+                        </span>
+                        {selectedOnPage.length > 0 && activeTab !== 'rejected' && (
+                          <Button size="sm" variant="outline" onClick={() => setBulkAction('reject')}>
+                            <XCircle className="h-4 w-4 mr-2" />
+                            Reject Selected
+                          </Button>
+                        )}
+                        {selectedOnPage.length > 0 && activeTab !== 'approved' && (
+                          <Button size="sm" onClick={() => setBulkAction('approve')}>
+                            <CheckCircle className="h-4 w-4 mr-2" />
+                            Approve Selected
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="space-y-4">
+                      {pageReviews.map((review: Review, index) => (
+                        <AdminReviewCard
+                          key={review.id}
+                          id={`admin-review-${index}`}
+                          review={review}
+                          onApprove={() => approveMutation.mutate(review.id)}
+                          onReject={() => setRejectingReviewId(review.id)}
+                          isApproving={approveMutation.isPending}
+                          isRejecting={rejectMutation.isPending}
+                          showActions={activeTab === 'pending'}
+                          isSelected={selectedReviewIds.has(review.id)}
+                          onToggleSelected={() => setSelectedReviewIds((prev) => toggleId(prev, review.id))}
+                          isFocused={index === focusedIndex}
+                          onFocus={() => setFocusedReviewIndex(index)}
+                        />
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {activeTab === 'reports' && reportsData && reportsData.data.reports.length === 0 && (
+                  <div className="text-center py-12 text-muted-foreground">
+                    <p>No open reports</p>
+                  </div>
+                )}
+
+                {activeTab === 'reports' && reportsData && reportsData.data.reports.length > 0 && (
+                  <div className="space-y-4">
+                    {reportsData.data.reports.map((item) => (
+                      <ReportedReviewCard
+                        key={item.review.id}
+                        item={item}
+                        onDismiss={() => resolveReportMutation.mutate({ reviewId: item.review.id, action: 'dismiss' })}
+                        onHide={() => setRejectingReviewId(item.review.id)}
+                        onViewReviewer={() => viewReviewer(item.review)}
+                        isLoading={resolveReportMutation.isPending}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                {reviewsPagination && reviewsPagination.totalPages > 1 && (
+                  <div className="flex items-center justify-between mt-6">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => changeReviewsPage(reviewsPage - 1)}
+                      disabled={reviewsPage <= 1}
+                    >
+                      <ChevronLeft className="h-4 w-4 mr-1" />
+                      Previous
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      Page {reviewsPagination.page} of {reviewsPagination.totalPages} · {reviewsPagination.total}{' '}
+                      {activeTab === 'reports' ? 'reported' : activeTab} review{reviewsPagination.total !== 1 ? 's' : ''}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => changeReviewsPage(reviewsPage + 1)}
+                      disabled={reviewsPage >= reviewsPagination.totalPages}
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </div>
+                )}
+
+                {/* Bulk approval confirmation */}
+                <AlertDialog open={bulkAction === 'approve'} onOpenChange={(open) => !open && setBulkAction(null)}>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>
+                        Approve {selectedOnPage.length} review{selectedOnPage.length !== 1 ? 's' : ''}?
+                      </AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The selected reviews will be published on their book pages.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => bulkReviewMutation.mutate({ ids: selectedOnPage.map((r) => r.id), action: 'approve' })}
+                      >
+                        Approve
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+
+                {/* Rejections always carry a reason for the author */}
+                <RejectReviewDialog
+                  open={bulkAction === 'reject' || rejectingReviewId !== null}
+                  onOpenChange={(open) => {
+                    if (!open) {
+                      setBulkAction(null);
+                      setRejectingReviewId(null);
+                    }
+                  }}
+                  count={rejectingReviewId ? 1 : selectedOnPage.length}
+                  onConfirm={(reason) => {
+                    if (rejectingReviewId && activeTab === 'reports') {
+                      resolveReportMutation.mutate({ reviewId: rejectingReviewId, action: 'hide', reason });
+                    } else if (rejectingReviewId) {
+                      rejectMutation.mutate({ reviewId: rejectingReviewId, reason });
+                    } else {
+                      bulkReviewMutation.mutate({ ids: selectedOnPage.map((r) => r.id), action: 'reject', reason });
+                    }
+                  }}
+                  isPending={rejectMutation.isPending || bulkReviewMutation.isPending || resolveReportMutation.isPending}
+                />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Comments Moderation */}
+      {activeSection === 'comments' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Comment Moderation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Tabs value={commentsTab} onValueChange={(v) => setCommentsTab(v as typeof commentsTab)}>
+              <TabsList className="mb-4">
+                <TabsTrigger value="pending" className="gap-2">
+                  <AlertCircle className="h-4 w-4" />
+                  Pending
+                  {statsData && statsData.data.pendingComments > 0 && (
+                    <Badge variant="secondary" className="ml-1">
+                      {statsData.data.pendingComments}
+                    </Badge>
+                  )}
+                </TabsTrigger>
+                <TabsTrigger value="approved" className="gap-2">
+                  <CheckCircle className="h-4 w-4" />
+                  Approved
+                </TabsTrigger>
+                <TabsTrigger value="rejected" className="gap-2">
+                  <XCircle className="h-4 w-4" />
+                  Rejected
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value={commentsTab}>
+                {commentsLoading && (
+                  <div className="space-y-4">
+                    {Array.from({ length: 3 }).map((_, i) => (
+                      <div key={i} className="p-4 border rounded-lg space-y-3">
+                        <Skeleton className="h-5 w-1/2" />
+                        <Skeleton className="h-10 w-full" />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {commentsData && commentsData.data.comments.length === 0 && (
+                  <div className="text-center py-12 text-muted-foreground">
+                    <p>No {commentsTab} comments</p>
+                  </div>
+                )}
+
+                {commentsData && commentsData.data.comments.length > 0 && (
                   <div className="space-y-4">
-                    {reviewsData.data.reviews.map((review: Review) => (
-                      <AdminReviewCard
-                        key={review.id}
-                        review={review}
-                        onApprove={() => approveMutation.mutate(review.id)}
-                        onReject={() => rejectMutation.mutate(review.id)}
-                        isApproving={approveMutation.isPending}
-                        isRejecting={rejectMutation.isPending}
-                        showActions={activeTab === 'pending'}
+                    {commentsData.data.comments.map((comment) => (
+                      <AdminCommentCard
+                        key={comment.id}
+                        comment={comment}
+                        onApprove={() => commentActionMutation.mutate({ commentId: comment.id, action: 'approve' })}
+                        onReject={() => commentActionMutation.mutate({ commentId: comment.id, action: 'reject' })}
+                        isLoading={commentActionMutation.isPending}
+                        showActions={commentsTab === 'pending'}
                       />
                     ))}
                   </div>
@@ -288,21 +840,56 @@ export function AdminPage() {
             <CardTitle>User Management</CardTitle>
           </CardHeader>
           <CardContent>
-            {/* Search */}
-            <div className="relative mb-4">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search users by email..."
-                value={userSearch}
-                onChange={(e) => setUserSearch(e.target.value)}
-                className="pl-10"
-              />
+            {/* Search and filters */}
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <div className="relative flex-1 min-w-56">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder={`Search users by ${userSearchField}...`}
+                  value={userSearch}
+                  onChange={(e) => updateUserParams({ q: e.target.value, page: null })}
+                  className="pl-10"
+                />
+              </div>
+              <Select
+                value={userSearchField}
+                onValueChange={(v) => updateUserParams({ field: v === 'email' ? null : v, page: null })}
+              >
+                <SelectTrigger className="w-32" aria-label="Search field">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="email">Email</SelectItem>
+                  <SelectItem value="name">Name</SelectItem>
+                  <SelectItem value="username">Username</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={isFilterLocked ? 'all' : userFilter}
+                onValueChange={(v) => updateUserParams({ show: v === 'all' ? null : v, page: null })}
+                disabled={isFilterLocked}
+              >
+                <SelectTrigger
+                  className="w-36"
+                  aria-label="Filter users"
+                  title={isFilterLocked ? "Filters can't be combined with a username search" : undefined}
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_FILTERS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {userFilterLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
             {usersLoading && (
-              <div className="space-y-4">
+              <div className="space-y-2">
                 {Array.from({ length: 5 }).map((_, i) => (
-                  <div key={i} className="p-4 border rounded-lg flex items-center gap-4">
+                  <div key={i} className="p-2 flex items-center gap-4">
                     <Skeleton className="h-10 w-10 rounded-full" />
                     <div className="flex-1 space-y-2">
                       <Skeleton className="h-4 w-1/3" />
@@ -313,86 +900,218 @@ export function AdminPage() {
               </div>
             )}
 
-            {usersData && usersData.users && usersData.users.length === 0 && (
+            {usersData && usersData.users.length === 0 && (
               <div className="text-center py-12 text-muted-foreground">
                 <p>No users found</p>
               </div>
             )}
 
-            {usersData && usersData.users && usersData.users.length > 0 && (
-              <div className="space-y-3">
-                {(usersData.users as AdminUser[]).map((user: AdminUser) => (
-                  <UserCard
-                    key={user.id}
-                    user={user}
-                    onBan={(reason) => banUserMutation.mutate({ userId: user.id, reason })}
-                    onUnban={() => unbanUserMutation.mutate(user.id)}
-                    onSetRole={(role) => setRoleMutation.mutate({ userId: user.id, role })}
-                    onRemove={() => removeUserMutation.mutate(user.id)}
-                    isLoading={
-                      banUserMutation.isPending || 
-                      unbanUserMutation.isPending || 
-                      setRoleMutation.isPending ||
-                      removeUserMutation.isPending
-                    }
-                  />
-                ))}
-              </div>
+            {usersData && usersData.users.length > 0 && (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <SortableHead
+                        label="User"
+                        column="name"
+                        sort={userSort}
+                        direction={userSortDirection}
+                        onSort={sortUsers}
+                      />
+                      <TableHead>Role</TableHead>
+                      <TableHead>Status</TableHead>
+                      <SortableHead
+                        label="Joined"
+                        column="createdAt"
+                        sort={userSort}
+                        direction={userSortDirection}
+                        onSort={sortUsers}
+                      />
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(usersData.users as AdminUser[]).map((user: AdminUser) => (
+                      <UserRow
+                        key={user.id}
+                        user={user}
+                        onBan={(reason, expiresIn) => banUserMutation.mutate({ userId: user.id, reason, expiresIn })}
+                        onUnban={() => unbanUserMutation.mutate(user.id)}
+                        onSetRole={(role) => setRoleMutation.mutate({ userId: user.id, role })}
+                        onRemove={() => removeUserMutation.mutate(user.id)}
+                        onViewDetails={() => setDetailUserId(user.id)}
+                        onImpersonate={() => impersonateMutation.mutate(user.id)}
+                        isLoading={
+                          banUserMutation.isPending || 
+                          unbanUserMutation.isPending || 
+                          setRoleMutation.isPending ||
+                          removeUserMutation.isPending ||
+                          impersonateMutation.isPending
+                        }
+                      />
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="flex flex-wrap items-center justify-between gap-2 mt-4">
+                  <span className="text-sm text-muted-foreground">
+                    {usersData.total} user{usersData.total !== 1 ? 's' : ''}
+                  </span>
+                  {usersTotalPages > 1 && (
+                    <Pagination className="mx-0 w-auto">
+                      <PaginationContent>
+                        <PaginationItem>
+                          <PaginationPrevious
+                            href={`?${userParamsWith({ page: String(usersPage - 1) })}`}
+                            aria-disabled={usersPage <= 1}
+                            className={usersPage <= 1 ? 'pointer-events-none opacity-50' : undefined}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              updateUserParams({ page: usersPage - 1 > 1 ? String(usersPage - 1) : null });
+                            }}
+                          />
+                        </PaginationItem>
+                        {pageWindow(usersPage, usersTotalPages).map((p, i) =>
+                          p === null ? (
+                            <PaginationItem key={`gap-${i}`}>
+                              <PaginationEllipsis />
+                            </PaginationItem>
+                          ) : (
+                            <PaginationItem key={p}>
+                              <PaginationLink
+                                href={`?${userParamsWith({ page: String(p) })}`}
+                                isActive={p === usersPage}
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  updateUserParams({ page: p > 1 ? String(p) : null });
+                                }}
+                              >
+                                {p}
+                              </PaginationLink>
+                            </PaginationItem>
+                          )
+                        )}
+                        <PaginationItem>
+                          <PaginationNext
+                            href={`?${userParamsWith({ page: String(usersPage + 1) })}`}
+                            aria-disabled={usersPage >= usersTotalPages}
+                            className={usersPage >= usersTotalPages ? 'pointer-events-none opacity-50' : undefined}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              updateUserParams({ page: String(usersPage + 1) });
+                            }}
+                          />
+                        </PaginationItem>
+                      </PaginationContent>
+                    </Pagination>
+                  )}
+                </div>
+              </>
             )}
           </CardContent>
         </Card>
       )}
+
+      {/* Looked up from the list so ban and role changes show up without reopening */}
+      <UserDetailSheet
+        user={(usersData?.users as AdminUser[] | undefined)?.find((u) => u.id === detailUserId) ?? null}
+        onOpenChange={(open) => !open && setDetailUserId(null)}
+      />
+
+      {/* Analytics */}
+      {activeSection === 'analytics' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Analytics</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AnalyticsPanel />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Audit Log */}
+      {activeSection === 'audit' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Audit Log</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AuditLogPanel />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
 
-function UserCard({
+function SortableHead({
+  label,
+  column,
+  sort,
+  direction,
+  onSort,
+}: {
+  label: string;
+  column: UserSort;
+  sort: UserSort;
+  direction: 'asc' | 'desc';
+  onSort: (column: UserSort) => void;
+}) {
+  const isSorted = sort === column;
+  const Icon = !isSorted ? ArrowUpDown : direction === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead aria-sort={isSorted ? (direction === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => onSort(column)}>
+        {label}
+        <Icon className={`ml-1 h-3 w-3 ${isSorted ? '' : 'text-muted-foreground'}`} />
+      </Button>
+    </TableHead>
+  );
+}
+
+function UserRow({
   user,
   onBan,
   onUnban,
   onSetRole,
   onRemove,
+  onViewDetails,
+  onImpersonate,
   isLoading,
 }: {
   user: AdminUser;
-  onBan: (reason?: string) => void;
+  onBan: (reason: string, expiresInSeconds?: number) => void;
   onUnban: () => void;
   onSetRole: (role: string) => void;
   onRemove: () => void;
+  onViewDetails: () => void;
+  onImpersonate: () => void;
   isLoading: boolean;
 }) {
   return (
-    <div className="p-4 border rounded-lg flex items-center gap-4">
-      <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center text-primary font-medium">
-        {user.name?.charAt(0).toUpperCase() || user.email.charAt(0).toUpperCase()}
-      </div>
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2">
-          <span className="font-medium truncate">{user.name || user.username}</span>
-          {user.role === 'admin' && (
-            <Badge variant="default" className="gap-1">
-              <Shield className="h-3 w-3" />
-              Admin
-            </Badge>
-          )}
-          {user.banned && (
-            <Badge variant="destructive" className="gap-1">
-              <Ban className="h-3 w-3" />
-              Banned
-            </Badge>
-          )}
-        </div>
-        <div className="text-sm text-muted-foreground truncate">
-          {user.email} · @{user.username}
-        </div>
-        {user.banned && user.banReason && (
-          <div className="text-xs text-destructive mt-1">
-            Reason: {user.banReason}
+    <TableRow>
+      <TableCell className="max-w-72">
+        <div className="flex items-center gap-3">
+          <div className="h-9 w-9 shrink-0 rounded-full bg-primary/10 flex items-center justify-center text-primary font-medium">
+            {user.name?.charAt(0).toUpperCase() || user.email.charAt(0).toUpperCase()}
           </div>
-        )}
-      </div>
-      <div className="flex items-center gap-2">
-        {/* Role selector */}
+          <div className="min-w-0">
+            <button
+              type="button"
+              onClick={onViewDetails}
+              className="block font-medium truncate hover:text-primary transition-colors"
+            >
+              {user.name || user.username}
+            </button>
+            <div className="text-xs text-muted-foreground truncate">
+              {user.email} · @{user.username}
+            </div>
+          </div>
+        </div>
+      </TableCell>
+      <TableCell>
         <Select
           value={user.role}
           onValueChange={onSetRole}
@@ -416,97 +1135,128 @@ function UserCard({
             </SelectItem>
           </SelectContent>
         </Select>
-
-        {/* Ban/Unban button */}
+      </TableCell>
+      <TableCell className="max-w-56 whitespace-normal">
         {user.banned ? (
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={onUnban}
-            disabled={isLoading}
-          >
-            <UserCheck className="h-4 w-4 mr-1" />
-            Unban
-          </Button>
+          <>
+            <BannedBadge banExpires={user.banExpires} />
+            {user.banReason && (
+              <div className="text-xs text-destructive mt-1 truncate" title={user.banReason}>
+                Reason: {user.banReason}
+              </div>
+            )}
+          </>
         ) : (
+          <span className="text-sm text-muted-foreground">Active</span>
+        )}
+      </TableCell>
+      <TableCell className="text-muted-foreground">
+        {new Date(user.createdAt).toLocaleDateString()}
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center justify-end gap-1">
+          <AuditLogDialog targetType="user" targetId={user.id} />
+          <BanHistoryDialog userId={user.id} />
+
+          {/* Better Auth refuses to impersonate other admins */}
+          {user.role !== 'admin' && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="sm" variant="ghost" disabled={isLoading} aria-label="Impersonate">
+                  <Eye className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Impersonate {user.name || user.username}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    You'll see RePrint exactly as they do, and anything you change is done as them.
+                    Use the banner at the top of the page to stop impersonating.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onImpersonate}>Impersonate</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+
+          {/* Ban/Unban button */}
+          {user.banned ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onUnban}
+              disabled={isLoading}
+            >
+              <UserCheck className="h-4 w-4 mr-1" />
+              Unban
+            </Button>
+          ) : (
+            <BanUserDialog userLabel={user.name || user.email} disabled={isLoading} onBan={onBan} />
+          )}
+
+          {/* Delete button */}
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button
                 size="sm"
-                variant="outline"
+                variant="destructive"
                 disabled={isLoading}
               >
-                <UserX className="h-4 w-4 mr-1" />
-                Ban
+                <Trash2 className="h-4 w-4" />
               </Button>
             </AlertDialogTrigger>
             <AlertDialogContent>
               <AlertDialogHeader>
-                <AlertDialogTitle>Ban User</AlertDialogTitle>
+                <AlertDialogTitle>Delete User</AlertDialogTitle>
                 <AlertDialogDescription>
-                  Are you sure you want to ban {user.name || user.email}? 
-                  They will be logged out and unable to sign in.
+                  This action cannot be undone. This will permanently delete the user 
+                  account for {user.name || user.email} and all associated data.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
                 <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction onClick={() => onBan('Violated community guidelines')}>
-                  Ban User
+                <AlertDialogAction
+                  onClick={onRemove}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete User
                 </AlertDialogAction>
               </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
-        )}
-
-        {/* Delete button */}
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button
-              size="sm"
-              variant="destructive"
-              disabled={isLoading}
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Delete User</AlertDialogTitle>
-              <AlertDialogDescription>
-                This action cannot be undone. This will permanently delete the user 
-                account for {user.name || user.email} and all associated data.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction
-                onClick={onRemove}
-                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-              >
-                Delete User
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-      </div>
-    </div>
+        </div>
+      </TableCell>
+    </TableRow>
   );
 }
 
 function AdminReviewCard({
+  id,
   review,
   onApprove,
   onReject,
   isApproving,
   isRejecting,
   showActions,
+  isSelected,
+  onToggleSelected,
+  isFocused,
+  onFocus,
 }: {
+  id: string;
   review: Review;
   onApprove: () => void;
   onReject: () => void;
   isApproving: boolean;
   isRejecting: boolean;
   showActions: boolean;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+  isFocused: boolean;
+  onFocus: () => void;
 }) {
   const getCoverUrl = (coverId: number | null | undefined) => {
     if (!coverId) return null;
@@ -516,9 +1266,21 @@ function AdminReviewCard({
   const coverUrl = getCoverUrl(review.coverId);
 
   return (
-    <div className="p-4 border rounded-lg">
+    <div
+      id={id}
+      onClick={onFocus}
+      className={`p-4 border rounded-lg transition-colors ${isFocused ? 'ring-2 ring-primary/60' : ''} ${
+        isSelected ? 'bg-primary/5' : ''
+      }`}
+    >
       {/* Header */}
       <div className="flex gap-4 mb-3">
+        <Checkbox
+          checked={isSelected}
+          onCheckedChange={onToggleSelected}
+          aria-label={`Select review of ${review.bookTitle}`}
+          className="mt-1"
+        />
         <Link to={`/book${review.workKey}`} className="shrink-0">
           <div className="w-10 h-14 bg-muted rounded overflow-hidden">
             {coverUrl ? (
@@ -556,16 +1318,31 @@ function AdminReviewCard({
             Contains Spoilers
           </Badge>
         )}
-        <p className="text-sm text-foreground whitespace-pre-wrap line-clamp-4">
-          {review.content}
-        </p>
+        <ReviewContent content={review.content} revealSpoilers className="text-sm text-foreground" />
+        {review.ruleMatches && review.ruleMatches.length > 0 && (
+          <div className="mt-3 p-2 rounded bg-yellow-500/10 border border-yellow-500/30">
+            <p className="text-xs font-medium text-yellow-600 dark:text-yellow-500 mb-2">Flagged by content filters</p>
+            <RuleMatches content={review.content} matches={review.ruleMatches} />
+          </div>
+        )}
+        {review.status === 'rejected' && review.rejectionReason && (
+          <p className="mt-3 text-xs text-destructive bg-destructive/10 p-2 rounded">
+            Rejected: {review.rejectionReason}
+          </p>
+        )}
       </div>
 
       {/* Footer */}
       <div className="flex items-center justify-between pt-3 border-t border-border">
-        <p className="text-xs text-muted-foreground">
-          Submitted {new Date(review.createdAt).toLocaleString()}
-        </p>
+        <div className="flex items-center gap-2">
+          <p className="text-xs text-muted-foreground">
+            Submitted {new Date(review.createdAt).toLocaleString()}
+            {review.editedAt && <> · Edited {new Date(review.editedAt).toLocaleString()}</>}
+          </p>
+          {review.editedAt && <ReviewRevisionsDialog review={review} />}
+          <ModeratorNotesDialog review={review} />
+          <AuditLogDialog targetType="review" targetId={review.id} />
+        </div>
         {showActions && (
           <div className="flex items-center gap-2">
             <Button
@@ -591,3 +1368,135 @@ function AdminReviewCard({
     </div>
   );
 }
+
+function AdminCommentCard({
+  comment,
+  onApprove,
+  onReject,
+  isLoading,
+  showActions,
+}: {
+  comment: AdminComment;
+  onApprove: () => void;
+  onReject: () => void;
+  isLoading: boolean;
+  showActions: boolean;
+}) {
+  return (
+    <div className="p-4 border rounded-lg">
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-2 text-sm text-muted-foreground">
+        <span>
+          {comment.parentId ? 'Reply' : 'Comment'} by {comment.username || 'Unknown'} on a review of
+        </span>
+        <Link to={`/book${comment.workKey}`} className="font-medium text-foreground hover:text-primary transition-colors line-clamp-1">
+          {comment.bookTitle}
+        </Link>
+      </div>
+
+      {/* Content */}
+      <p className="text-sm text-foreground whitespace-pre-wrap line-clamp-4 mb-3">
+        {comment.content}
+      </p>
+
+      {/* Footer */}
+      <div className="flex items-center justify-between pt-3 border-t border-border">
+        <p className="text-xs text-muted-foreground">
+          Submitted {new Date(comment.createdAt).toLocaleString()}
+        </p>
+        {showActions && (
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={onReject} disabled={isLoading}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject
+            </Button>
+            <Button size="sm" onClick={onApprove} disabled={isLoading}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Approve
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReportedReviewCard({
+  item,
+  onDismiss,
+  onHide,
+  onViewReviewer,
+  isLoading,
+}: {
+  item: ReportedReview;
+  onDismiss: () => void;
+  onHide: () => void;
+  onViewReviewer: () => void;
+  isLoading: boolean;
+}) {
+  const { review, reports } = item;
+
+  return (
+    <div className="p-4 border rounded-lg">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div className="min-w-0">
+          <Link to={`/book${review.workKey}`}>
+            <h4 className="font-medium hover:text-primary transition-colors line-clamp-1">
+              {review.bookTitle}
+            </h4>
+          </Link>
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span>by {review.username || 'Unknown'}</span>
+            <StarRating rating={review.rating} size="sm" />
+            <span>{review.rating}/5</span>
+          </div>
+        </div>
+        <Badge variant="destructive" className="shrink-0 gap-1">
+          <Flag className="h-3 w-3" />
+          {reports.length} report{reports.length !== 1 ? 's' : ''}
+        </Badge>
+      </div>
+
+      {/* Content */}
+      <ReviewContent content={review.content} revealSpoilers className="text-sm text-foreground mb-3" />
+
+      {/* Reports */}
+      <ul className="space-y-2 mb-3">
+        {reports.map((report) => (
+          <li key={report.id} className="text-sm bg-muted/50 rounded p-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{reportReasonLabels[report.reason]}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {report.reporterUsername} · {new Date(report.createdAt).toLocaleString()}
+              </span>
+            </div>
+            {report.details && <p className="mt-1 text-muted-foreground whitespace-pre-wrap">{report.details}</p>}
+          </li>
+        ))}
+      </ul>
+
+      {/* Footer */}
+      <div className="flex flex-wrap items-center justify-between gap-2 pt-3 border-t border-border">
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="ghost" onClick={onViewReviewer}>
+            <UserSearch className="h-4 w-4 mr-2" />
+            View Reviewer
+          </Button>
+          <ModeratorNotesDialog review={review} />
+          <AuditLogDialog targetType="review" targetId={review.id} />
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={onDismiss} disabled={isLoading}>
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Dismiss
+          </Button>
+          <Button size="sm" variant="destructive" onClick={onHide} disabled={isLoading}>
+            <XCircle className="h-4 w-4 mr-2" />
+            Hide Review
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
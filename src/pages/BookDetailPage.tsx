@@ -1,17 +1,25 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, Link, useSearchParams } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
 import { api } from '../api';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Separator } from '@/components/ui/separator';
-import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,6 +38,13 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { StarRating } from '../components/StarRating';
+import { ReadingProgressEditor } from '../components/ReadingProgress';
+import { ReadingDates, ReadingSessionsDialog } from '../components/ReadingSessions';
+import { ManageShelvesDialog, ShelfPicker } from '../components/Shelves';
+import { ReviewComments, ReviewLikeButton } from '../components/ReviewComments';
+import { ReportReviewDialog } from '../components/ReviewReports';
+import { ReviewContent } from '../components/ReviewContent';
+import { MarkdownEditor } from '../components/MarkdownEditor';
 import { 
   Image, 
   BookOpen, 
@@ -45,11 +60,22 @@ import {
   Clock,
   Check,
   Library,
-  ExternalLink
+  ExternalLink,
+  CalendarDays,
+  Loader2
 } from 'lucide-react';
-import type { LibraryStatus, ReviewWithUser, RatingBreakdown } from '../types';
+import type { LibraryStatus, ReviewWithUser, RatingBreakdown, ReadingProgressUpdate, ReviewSort } from '../types';
 import { useAuth } from '@/hooks/use-auth';
 import { useTitle } from '@/hooks/use-title';
+import { useReviewDraft, useUnsavedChangesWarning } from '@/hooks/use-review-drafts';
+
+const reviewSortLabels: Record<ReviewSort, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  highest: 'Highest Rated',
+  lowest: 'Lowest Rated',
+  most_liked: 'Most Liked',
+};
 
 const statusConfig = {
   want_to_read: { label: 'Want to Read', icon: BookMarked, color: 'bg-emerald-600 hover:bg-emerald-700' },
@@ -71,6 +97,10 @@ export function BookDetailPage() {
   const [isEditing, setIsEditing] = useState(false);
   const [showFullDescription, setShowFullDescription] = useState(false);
   const [revealedSpoilers, setRevealedSpoilers] = useState<Set<string>>(new Set());
+  const [reviewSort, setReviewSort] = useState<ReviewSort>('newest');
+  const [ratingFilter, setRatingFilter] = useState<number | null>(null);
+  const [hideSpoilerReviews, setHideSpoilerReviews] = useState(false);
+  const [manageShelvesOpen, setManageShelvesOpen] = useState(false);
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['book', workKey, isbn],
@@ -79,6 +109,74 @@ export function BookDetailPage() {
 
   useTitle(data?.data?.book?.title);
 
+  const {
+    draft: reviewDraft,
+    saveDraft,
+    clearDraft,
+    isLoading: reviewDraftLoading,
+  } = useReviewDraft(
+    workKey,
+    data?.data.book.title,
+    data?.data.book.coverId
+  );
+  const savedReview = data?.data.userReview;
+  const isReviewFormOpen = isAuthenticated && !!data && (!savedReview || isEditing);
+  const hasUnsavedReview =
+    isReviewFormOpen &&
+    reviewContent.trim() !== '' &&
+    (!savedReview ||
+      reviewContent !== savedReview.content ||
+      reviewRating !== savedReview.rating ||
+      hasSpoilers !== savedReview.hasSpoilers);
+
+  // Restore an in-progress draft once, the first time the new-review form is shown for this book.
+  // Wait for the server drafts so one started on another device isn't skipped and then overwritten.
+  const [restoredDraftFor, setRestoredDraftFor] = useState<string | null>(null);
+  if (isReviewFormOpen && !savedReview && !reviewDraftLoading && restoredDraftFor !== workKey) {
+    setRestoredDraftFor(workKey);
+    if (reviewDraft) {
+      setReviewRating(reviewDraft.rating);
+      setReviewContent(reviewDraft.content);
+      setHasSpoilers(reviewDraft.hasSpoilers);
+    }
+  }
+
+  useEffect(() => {
+    if (hasUnsavedReview) {
+      saveDraft({ rating: reviewRating, content: reviewContent, hasSpoilers });
+    }
+  }, [hasUnsavedReview, reviewRating, reviewContent, hasSpoilers, saveDraft]);
+
+  useUnsavedChangesWarning(hasUnsavedReview);
+
+  const {
+    data: reviewsData,
+    isLoading: reviewsLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['book', workKey, 'reviews', reviewSort, ratingFilter, hideSpoilerReviews],
+    queryFn: ({ pageParam }) =>
+      api.getBookReviews(workKey, {
+        page: pageParam,
+        limit: 10,
+        sort: reviewSort,
+        rating: ratingFilter,
+        hideSpoilers: hideSpoilerReviews,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => {
+      const { page, totalPages } = lastPage.data.pagination;
+      return page < totalPages ? page + 1 : undefined;
+    },
+  });
+
+  const communityReviews = (reviewsData?.pages.flatMap((page) => page.data.reviews) ?? []).filter(
+    (r) => r.userId !== user?.id
+  );
+  const filteredReviewTotal = reviewsData?.pages[0]?.data.pagination.total ?? 0;
+
   const addToLibraryMutation = useMutation({
     mutationFn: (status: LibraryStatus) =>
       api.addToLibrary({
@@ -103,6 +201,15 @@ export function BookDetailPage() {
     },
   });
 
+  const progressMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ReadingProgressUpdate }) =>
+      api.updateReadingProgress(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['book', workKey] });
+      queryClient.invalidateQueries({ queryKey: ['library'] });
+    },
+  });
+
   const removeFromLibraryMutation = useMutation({
     mutationFn: (id: string) => api.removeFromLibrary(id),
     onSuccess: () => {
@@ -122,6 +229,9 @@ export function BookDetailPage() {
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['book', workKey] });
+      clearDraft();
+      // The form stays open until the book refetch returns the new review; don't restore into it
+      setRestoredDraftFor(workKey);
       setReviewContent('');
       setReviewRating(5);
       setHasSpoilers(false);
@@ -137,6 +247,7 @@ export function BookDetailPage() {
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['book', workKey] });
+      clearDraft();
       setIsEditing(false);
     },
   });
@@ -162,13 +273,23 @@ export function BookDetailPage() {
 
   const startEditing = () => {
     if (data?.data.userReview) {
-      setReviewRating(data.data.userReview.rating);
-      setReviewContent(data.data.userReview.content);
-      setHasSpoilers(data.data.userReview.hasSpoilers);
+      // Pick up unsaved edits if they're newer than the published review
+      const source =
+        reviewDraft && new Date(reviewDraft.updatedAt) > new Date(data.data.userReview.updatedAt)
+          ? reviewDraft
+          : data.data.userReview;
+      setReviewRating(source.rating);
+      setReviewContent(source.content);
+      setHasSpoilers(source.hasSpoilers);
       setIsEditing(true);
     }
   };
 
+  const cancelEditing = () => {
+    clearDraft();
+    setIsEditing(false);
+  };
+
   if (isLoading) {
     return (
       <div className="max-w-5xl mx-auto px-4 py-8">
@@ -199,7 +320,7 @@ export function BookDetailPage() {
     );
   }
 
-  const { book, reviews, averageRating, reviewCount, reprintBreakdown: rawReprintBreakdown, openLibraryRatings, libraryItem, userReview } = data.data;
+  const { book, averageRating, reviewCount, reprintBreakdown: rawReprintBreakdown, openLibraryRatings, libraryItem, userReview } = data.data;
   const reprintBreakdown: RatingBreakdown = rawReprintBreakdown || { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
   const currentStatus = libraryItem?.status;
   const StatusIcon = currentStatus ? statusConfig[currentStatus].icon : BookMarked;
@@ -263,6 +384,30 @@ export function BookDetailPage() {
                       })}
                     </DropdownMenuContent>
                   </DropdownMenu>
+                  <ShelfPicker item={libraryItem} onManageShelves={() => setManageShelvesOpen(true)} />
+                  <ManageShelvesDialog open={manageShelvesOpen} onOpenChange={setManageShelvesOpen} />
+                  {libraryItem.status === 'reading' && (
+                    <ReadingProgressEditor
+                      item={libraryItem}
+                      onSave={(progress) => progressMutation.mutate({ id: libraryItem.id, data: progress })}
+                      isSaving={progressMutation.isPending}
+                      className="py-1"
+                    />
+                  )}
+                  <div className="flex items-start justify-between gap-2 text-xs text-muted-foreground">
+                    <div className="space-y-0.5">
+                      <ReadingDates item={libraryItem} />
+                    </div>
+                    <ReadingSessionsDialog
+                      item={libraryItem}
+                      trigger={
+                        <Button variant="link" size="sm" className="h-auto p-0 text-xs ml-auto">
+                          <CalendarDays className="h-3 w-3 mr-1" />
+                          Edit dates
+                        </Button>
+                      }
+                    />
+                  </div>
                   <AlertDialog>
                     <AlertDialogTrigger asChild>
                       <Button variant="outline" className="w-full" size="sm">
@@ -550,13 +695,25 @@ export function BookDetailPage() {
                       const count = reprintBreakdown[stars as keyof RatingBreakdown] || 0;
                       const percentage = reviewCount > 0 ? Math.round((count / reviewCount) * 100) : 0;
                       return (
-                        <div key={stars} className="flex items-center gap-2">
-                          <span className="text-sm w-12 shrink-0">{stars} stars</span>
+                        <button
+                          key={stars}
+                          type="button"
+                          onClick={() => {
+                            setRatingFilter(ratingFilter === stars ? null : stars);
+                            document.getElementById('community-reviews')?.scrollIntoView({ behavior: 'smooth' });
+                          }}
+                          disabled={count === 0}
+                          title={`Show ${stars}-star reviews`}
+                          className={`flex items-center gap-2 w-full rounded px-1 -mx-1 transition-colors hover:bg-secondary/60 disabled:pointer-events-none ${
+                            ratingFilter === stars ? 'bg-secondary' : ''
+                          }`}
+                        >
+                          <span className="text-sm w-12 shrink-0 text-left">{stars} stars</span>
                           <Progress value={percentage} className="h-2 flex-1 min-w-0" />
                           <span className="text-sm text-muted-foreground w-24 text-right whitespace-nowrap shrink-0">
                             {count} ({percentage}%)
                           </span>
-                        </div>
+                        </button>
                       );
                     })}
                   </div>
@@ -622,7 +779,7 @@ export function BookDetailPage() {
         </Tabs>
 
         {/* Section Header for Reviews */}
-        {reviews.length > 0 && (
+        {reviewCount > 0 && (
           <h3 className="text-xl font-semibold mb-4 flex items-center gap-2">
             <BookOpen className="h-5 w-5" />
             RePrint Reviews ({reviewCount})
@@ -652,18 +809,36 @@ export function BookDetailPage() {
                   <Label htmlFor="review-content" className="mb-2 block text-sm font-medium">
                     Your Review
                   </Label>
-                  <Textarea
+                  <MarkdownEditor
                     id="review-content"
                     placeholder="What did you think of this book? Share your thoughts, favorite quotes, or how it made you feel..."
                     value={reviewContent}
-                    onChange={(e) => setReviewContent(e.target.value)}
+                    onChange={setReviewContent}
                     rows={6}
                     maxLength={5000}
-                    className="resize-none"
                   />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    {reviewContent.length}/5000 characters
-                  </p>
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground mt-1">
+                    <span>{reviewContent.length}/5000 characters</span>
+                    {hasUnsavedReview && reviewDraft && (
+                      <span className="flex items-center gap-2">
+                        Draft saved {format(parseISO(reviewDraft.updatedAt), 'h:mm a')}
+                        {!savedReview && (
+                          <button
+                            type="button"
+                            className="underline hover:text-foreground"
+                            onClick={() => {
+                              clearDraft();
+                              setReviewContent('');
+                              setReviewRating(5);
+                              setHasSpoilers(false);
+                            }}
+                          >
+                            Discard
+                          </button>
+                        )}
+                      </span>
+                    )}
+                  </div>
                 </div>
 
                 <div className="flex items-center gap-2">
@@ -687,7 +862,7 @@ export function BookDetailPage() {
                         <CheckCircle className="h-4 w-4 mr-2" />
                         Save Changes
                       </Button>
-                      <Button variant="outline" onClick={() => setIsEditing(false)}>
+                      <Button variant="outline" onClick={cancelEditing}>
                         <X className="h-4 w-4 mr-2" />
                         Cancel
                       </Button>
@@ -763,26 +938,79 @@ export function BookDetailPage() {
         )}
 
         {/* Community Reviews */}
-        <div>
-          <h3 className="text-lg font-semibold mb-4">Community Reviews</h3>
-          {reviews.length === 0 && !userReview ? (
+        <div id="community-reviews" className="scroll-mt-20">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h3 className="text-lg font-semibold">Community Reviews</h3>
+            {reviewCount > 0 && (
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="hide-spoilers"
+                    checked={hideSpoilerReviews}
+                    onCheckedChange={setHideSpoilerReviews}
+                  />
+                  <Label htmlFor="hide-spoilers" className="text-sm font-normal">
+                    Hide spoilers
+                  </Label>
+                </div>
+                <Select value={reviewSort} onValueChange={(v) => setReviewSort(v as ReviewSort)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(reviewSortLabels) as ReviewSort[]).map((sort) => (
+                      <SelectItem key={sort} value={sort}>
+                        {reviewSortLabels[sort]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          {ratingFilter !== null && (
+            <div className="flex items-center gap-2 mb-4 text-sm">
+              <span className="text-muted-foreground">
+                Showing {filteredReviewTotal.toLocaleString()} {ratingFilter}-star review{filteredReviewTotal !== 1 ? 's' : ''}
+              </span>
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setRatingFilter(null)}>
+                <X className="h-3 w-3 mr-1" />
+                Clear
+              </Button>
+            </div>
+          )}
+          {reviewCount === 0 && !userReview ? (
             <div className="text-center py-12 bg-card rounded-lg">
               <BookOpen className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <p className="text-lg font-medium">No reviews yet</p>
               <p className="text-muted-foreground">Be the first to share your thoughts!</p>
             </div>
+          ) : reviewsLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-32 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : communityReviews.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No reviews match these filters.</p>
           ) : (
             <div className="space-y-4">
-              {reviews
-                .filter((r) => r.userId !== user?.id)
-                .map((review) => (
-                  <ReviewCard
-                    key={review.id}
-                    review={review}
-                    isRevealed={revealedSpoilers.has(review.id)}
-                    onToggleSpoiler={() => toggleSpoiler(review.id)}
-                  />
-                ))}
+              {communityReviews.map((review) => (
+                <ReviewCard
+                  key={review.id}
+                  review={review}
+                  isRevealed={revealedSpoilers.has(review.id)}
+                  onToggleSpoiler={() => toggleSpoiler(review.id)}
+                />
+              ))}
+              {hasNextPage && (
+                <div className="text-center">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Load More Reviews
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -816,7 +1044,13 @@ function ReviewCard({
             </span>
           </div>
           <div>
-            <div className="font-medium">{displayName}</div>
+            {review.username ? (
+              <Link to={`/u/${review.username}`} className="font-medium hover:text-primary hover:underline">
+                {displayName}
+              </Link>
+            ) : (
+              <div className="font-medium">{displayName}</div>
+            )}
             <div className="flex items-center gap-2">
               <StarRating rating={review.rating} size="sm" />
               <span className="text-xs text-muted-foreground">
@@ -826,6 +1060,14 @@ function ReviewCard({
                   day: 'numeric',
                 })}
               </span>
+              {review.editedAt && (
+                <span
+                  className="text-xs text-muted-foreground italic"
+                  title={`Edited ${new Date(review.editedAt).toLocaleString()}`}
+                >
+                  (edited)
+                </span>
+              )}
               {isOwn && review.status !== 'approved' && (
                 <Badge variant="secondary" className="text-xs">
                   {review.status}
@@ -854,9 +1096,7 @@ function ReviewCard({
       
       <div className="mt-4">
         {showContent ? (
-          <p className="whitespace-pre-wrap text-foreground/90 leading-relaxed">
-            {review.content}
-          </p>
+          <ReviewContent content={review.content} />
         ) : (
           <div className="bg-secondary/50 rounded-lg p-4 text-center">
             <Eye className="h-6 w-6 mx-auto text-muted-foreground mb-2" />
@@ -866,6 +1106,19 @@ function ReviewCard({
           </div>
         )}
       </div>
+
+      {(review.status ?? 'approved') === 'approved' && (
+        <div className="flex flex-wrap items-center gap-1 mt-3 -ml-3">
+          <ReviewLikeButton
+            reviewId={review.id}
+            likeCount={review.likeCount}
+            isLiked={review.isLiked}
+            disabled={isOwn}
+          />
+          {!isOwn && <ReportReviewDialog reviewId={review.id} isReported={review.isReported} />}
+          <ReviewComments reviewId={review.id} commentCount={review.commentCount} />
+        </div>
+      )}
     </div>
   );
 }
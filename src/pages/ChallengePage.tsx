@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useTitle } from '@/hooks/use-title';
+import { useReadingChallenge, useSetReadingGoal } from '@/hooks/use-reading-challenge';
+import { getFinishedDate } from '@/lib/library';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ProgressRing } from '../components/ProgressRing';
+import { ScheduleStatus } from '../components/ReadingChallenge';
+import { Image, Loader2, Target } from 'lucide-react';
+import { toast } from 'sonner';
+
+export function ChallengePage() {
+  const currentYear = new Date().getFullYear();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const year = parseInt(searchParams.get('year') || '', 10) || currentYear;
+  useTitle(`${year} Reading Challenge`);
+
+  const { target, booksRead, expected, scheduleDelta, percent, isLoading } = useReadingChallenge(year);
+  const setGoalMutation = useSetReadingGoal(year);
+  const [goalInput, setGoalInput] = useState('');
+  const [isEditingGoal, setIsEditingGoal] = useState(false);
+
+  const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
+
+  const handleGoalSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(goalInput, 10);
+    if (!value || value < 1) return;
+    setGoalMutation.mutate(value, {
+      onSuccess: () => {
+        toast.success('Reading goal saved');
+        setIsEditingGoal(false);
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const showGoalForm = !target || isEditingGoal;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold">Reading Challenge</h1>
+        <Select
+          value={year.toString()}
+          onValueChange={(v) => {
+            setIsEditingGoal(false);
+            setSearchParams(parseInt(v, 10) === currentYear ? {} : { year: v });
+          }}
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {years.map((y) => (
+              <SelectItem key={y} value={y.toString()}>
+                {y}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full rounded-lg mb-8" />
+      ) : (
+        <Card className="mb-8">
+          <CardContent className="p-6 flex flex-col sm:flex-row items-center gap-8">
+            <ProgressRing value={percent} size={140} strokeWidth={12}>
+              <span className="text-3xl font-bold leading-none">{booksRead.length}</span>
+              <span className="text-sm text-muted-foreground">
+                {target ? `of ${target} books` : `book${booksRead.length !== 1 ? 's' : ''}`}
+              </span>
+            </ProgressRing>
+
+            <div className="flex-1 space-y-3 w-full">
+              {target && !isEditingGoal && (
+                <>
+                  <p className="text-lg">
+                    You've read <span className="font-semibold">{booksRead.length}</span> of{' '}
+                    <span className="font-semibold">{target}</span> books in {year}.
+                  </p>
+                  <div className="flex items-center gap-3">
+                    <ScheduleStatus delta={scheduleDelta} isComplete={booksRead.length >= target} />
+                    {year === currentYear && booksRead.length < target && (
+                      <span className="text-sm text-muted-foreground">
+                        {expected} book{expected !== 1 ? 's' : ''} expected by today
+                      </span>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setGoalInput(target.toString());
+                      setIsEditingGoal(true);
+                    }}
+                  >
+                    <Target className="h-4 w-4 mr-2" />
+                    Change Goal
+                  </Button>
+                </>
+              )}
+
+              {showGoalForm && (
+                <form onSubmit={handleGoalSubmit} className="space-y-2">
+                  <Label htmlFor="goal">How many books do you want to read in {year}?</Label>
+                  <div className="flex gap-2 max-w-xs">
+                    <Input
+                      id="goal"
+                      type="number"
+                      min={1}
+                      max={1000}
+                      value={goalInput}
+                      onChange={(e) => setGoalInput(e.target.value)}
+                      placeholder="e.g. 24"
+                    />
+                    <Button type="submit" disabled={!parseInt(goalInput, 10) || setGoalMutation.isPending}>
+                      {setGoalMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Save
+                    </Button>
+                    {isEditingGoal && (
+                      <Button type="button" variant="ghost" onClick={() => setIsEditingGoal(false)}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <h2 className="text-xl font-semibold mb-4">Books read in {year}</h2>
+
+      {!isLoading && booksRead.length === 0 && (
+        <div className="text-center py-12 text-muted-foreground">
+          <p>No books finished in {year} yet.</p>
+        </div>
+      )}
+
+      {booksRead.length > 0 && (
+        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-4">
+          {booksRead.map((item) => (
+            <Link key={item.id} to={`/book${item.workKey}`} className="group">
+              <div className="aspect-2/3 bg-muted rounded-md overflow-hidden shadow-md group-hover:shadow-lg transition-shadow">
+                {item.coverId ? (
+                  <img
+                    src={`https://covers.openlibrary.org/b/id/${item.coverId}-M.jpg`}
+                    alt={item.title}
+                    className="w-full h-full object-cover"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-muted-foreground bg-secondary">
+                    <Image className="h-8 w-8" />
+                  </div>
+                )}
+              </div>
+              <p className="text-sm font-medium mt-2 line-clamp-2 group-hover:text-primary transition-colors">
+                {item.title}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {getFinishedDate(item)!.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Search, Library, ArrowRight, Bookmark, PenLine } from 'lucide-react';
 import { NytBestSellers } from '../components/NytBestSellers';
+import { ReadingChallengeSummary } from '../components/ReadingChallenge';
+import { ActivityFeed } from '../components/ActivityFeed';
 import { useAuth } from '@/hooks/use-auth';
 import { useTitle } from '@/hooks/use-title';
 
@@ -78,6 +80,17 @@ export function HomePage() {
         </div>
       </section>
 
+      {/* Activity Feed */}
+      {isAuthenticated && (
+        <section className="py-16">
+          <div className="max-w-3xl mx-auto px-4">
+            <p className="text-sm font-medium text-primary mb-3">Activity</p>
+            <h2 className="text-2xl md:text-3xl font-bold mb-6">From readers you follow</h2>
+            <ActivityFeed />
+          </div>
+        </section>
+      )}
+
       {/* Features Section - Bento grid */}
       <section className="py-24">
         <div className="max-w-5xl mx-auto px-4">
@@ -173,6 +186,10 @@ export function HomePage() {
           <div className="max-w-3xl mx-auto px-4 text-center">
             <p className="text-sm font-medium text-primary mb-3">What's next?</p>
             <h2 className="text-3xl md:text-4xl font-bold mb-10">Jump back in</h2>
+
+            <div className="mb-8">
+              <ReadingChallengeSummary />
+            </div>
             
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <Link 
@@ -24,21 +24,41 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { Image, Trash2, Library, ArrowUp, ArrowDown } from 'lucide-react';
-import type { LibraryStatus, LibraryItem } from '../types';
+import { ReadingProgressEditor } from '../components/ReadingProgress';
+import { ReadingDates, ReadingSessionsDialog } from '../components/ReadingSessions';
+import { ManageShelvesDialog, ShelfPicker } from '../components/Shelves';
+import { Image, Trash2, Library, ArrowUp, ArrowDown, Settings2 } from 'lucide-react';
+import type { LibraryStatus, LibraryItem, ReadingProgressUpdate } from '../types';
+
+// Custom shelf tabs are keyed as `shelf:<id>` alongside the status tabs
+type LibraryTab = LibraryStatus | 'all' | `shelf:${string}`;
 
 export function LibraryPage() {
   useTitle('My Library');
-  const [activeTab, setActiveTab] = useState<LibraryStatus | 'all'>('all');
+  const [selectedTab, setSelectedTab] = useState<LibraryTab>('all');
   const [sortBy, setSortBy] = useState<'title' | 'createdAt'>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [manageShelvesOpen, setManageShelvesOpen] = useState(false);
   const queryClient = useQueryClient();
 
+  const { data: shelvesData } = useQuery({
+    queryKey: ['shelves'],
+    queryFn: () => api.getShelves(),
+  });
+  const shelves = shelvesData?.data.shelves ?? [];
+
+  // Fall back to "All" if the selected shelf was deleted
+  const selectedShelfId = selectedTab.startsWith('shelf:') ? selectedTab.slice(6) : undefined;
+  const activeTab: LibraryTab =
+    selectedShelfId && shelvesData && !shelves.some((s) => s.id === selectedShelfId) ? 'all' : selectedTab;
+  const shelfId = activeTab.startsWith('shelf:') ? activeTab.slice(6) : undefined;
+
   const { data, isLoading, error } = useQuery({
     queryKey: ['library', activeTab, sortBy, sortOrder],
     queryFn: () =>
       api.getLibrary({
-        status: activeTab === 'all' ? undefined : activeTab,
+        status: activeTab === 'all' || shelfId ? undefined : activeTab,
+        shelfId,
         sortBy,
         sortOrder,
         limit: 100,
@@ -66,6 +86,16 @@ export function LibraryPage() {
     },
   });
 
+  const progressMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ReadingProgressUpdate; workKey: string }) =>
+      api.updateReadingProgress(id, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['library'] });
+      const normalizedKey = variables.workKey.replace('/works/', '').replace(/^\//, '');
+      queryClient.invalidateQueries({ queryKey: ['book', normalizedKey] });
+    },
+  });
+
   const toggleSortOrder = () => {
     setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
   };
@@ -96,15 +126,25 @@ export function LibraryPage() {
               <ArrowDown className="h-4 w-4" />
             )}
           </Button>
+          <Button variant="outline" size="icon" onClick={() => setManageShelvesOpen(true)} title="Manage shelves">
+            <Settings2 className="h-4 w-4" />
+          </Button>
         </div>
       </div>
 
-      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as LibraryStatus | 'all')}>
-        <TabsList className="mb-6">
+      <ManageShelvesDialog open={manageShelvesOpen} onOpenChange={setManageShelvesOpen} />
+
+      <Tabs value={activeTab} onValueChange={(v) => setSelectedTab(v as LibraryTab)}>
+        <TabsList className="mb-6 h-auto flex-wrap">
           <TabsTrigger value="all">All</TabsTrigger>
           <TabsTrigger value="reading">Reading</TabsTrigger>
           <TabsTrigger value="read">Read</TabsTrigger>
           <TabsTrigger value="want_to_read">Want to Read</TabsTrigger>
+          {shelves.map((shelf) => (
+            <TabsTrigger key={shelf.id} value={`shelf:${shelf.id}`}>
+              {shelf.name}
+            </TabsTrigger>
+          ))}
         </TabsList>
 
         <TabsContent value={activeTab}>
@@ -147,7 +187,12 @@ export function LibraryPage() {
                   coverUrl={getCoverUrl(item.coverId)}
                   onStatusChange={(status) => updateMutation.mutate({ id: item.id, status, workKey: item.workKey })}
                   onRemove={() => removeMutation.mutate({ id: item.id, workKey: item.workKey })}
+                  onProgressSave={(progress) =>
+                    progressMutation.mutate({ id: item.id, data: progress, workKey: item.workKey })
+                  }
                   isUpdating={updateMutation.isPending}
+                  isSavingProgress={progressMutation.isPending && progressMutation.variables?.id === item.id}
+                  onManageShelves={() => setManageShelvesOpen(true)}
                 />
               ))}
             </div>
@@ -163,13 +208,19 @@ function LibraryItemCard({
   coverUrl,
   onStatusChange,
   onRemove,
+  onProgressSave,
   isUpdating,
+  isSavingProgress,
+  onManageShelves,
 }: {
   item: LibraryItem;
   coverUrl: string | null;
   onStatusChange: (status: LibraryStatus) => void;
   onRemove: () => void;
+  onProgressSave: (data: ReadingProgressUpdate) => void;
   isUpdating: boolean;
+  isSavingProgress: boolean;
+  onManageShelves: () => void;
 }) {
   return (
     <div className="group relative">
@@ -206,8 +257,18 @@ function LibraryItemCard({
           )}
           <div className="mt-2 text-xs text-muted-foreground space-y-0.5">
             <p>Added {new Date(item.createdAt).toLocaleDateString()}</p>
+            <ReadingDates item={item} />
           </div>
 
+          {item.status === 'reading' && (
+            <ReadingProgressEditor
+              item={item}
+              onSave={onProgressSave}
+              isSaving={isSavingProgress}
+              className="mt-3 max-w-xs"
+            />
+          )}
+
           {/* Actions - Bottom of info on small, or right side on larger */}
           <div className="mt-4 flex flex-wrap items-center gap-2">
             <Select
@@ -224,6 +285,8 @@ function LibraryItemCard({
                 <SelectItem value="read">Read</SelectItem>
               </SelectContent>
             </Select>
+            <ReadingSessionsDialog item={item} />
+            <ShelfPicker item={item} className="h-9 text-xs gap-2" onManageShelves={onManageShelves} />
             <AlertDialog>
               <AlertDialogTrigger asChild>
                 <Button variant="ghost" size="icon" className="h-9 w-9 text-muted-foreground hover:text-destructive transition-colors">
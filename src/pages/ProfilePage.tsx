@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../api';
+import { useTitle } from '@/hooks/use-title';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { StarRating } from '../components/StarRating';
+import { ReviewContent } from '../components/ReviewContent';
+import { FollowButton, FollowListDialog } from '../components/Follow';
+import { useAuth } from '@/hooks/use-auth';
+import { BookCheck, BookOpen, Eye, Image, Lock, MessageSquare, Star } from 'lucide-react';
+import type { LibraryItem, Review } from '../types';
+
+export function ProfilePage() {
+  const { username = '' } = useParams();
+  const { isAuthenticated } = useAuth();
+  useTitle(`@${username}`);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['profile', username],
+    queryFn: () => api.getUserProfile(username),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <Skeleton className="h-20 w-20 rounded-full" />
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-48" />
+            <Skeleton className="h-4 w-32" />
+          </div>
+        </div>
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-destructive mb-4">We couldn't find that reader.</p>
+        <Button asChild>
+          <Link to="/">Back to Home</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { profile } = data.data;
+  const isHidden = profile.isPrivate && !profile.isOwn;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <div className="h-20 w-20 rounded-full bg-secondary flex items-center justify-center text-2xl font-semibold shrink-0">
+          {(profile.name || profile.username).charAt(0).toUpperCase()}
+        </div>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-3xl font-bold truncate">{profile.name || profile.username}</h1>
+          <p className="text-muted-foreground">
+            @{profile.username} · Joined {new Date(profile.joinedAt).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </p>
+          {!isHidden && (
+            <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
+              <FollowListDialog username={profile.username} kind="followers" count={profile.followerCount} />
+              <FollowListDialog username={profile.username} kind="following" count={profile.followingCount} />
+            </div>
+          )}
+        </div>
+        {isAuthenticated && !profile.isOwn && (
+          <FollowButton username={profile.username} isFollowing={profile.isFollowing} />
+        )}
+      </div>
+
+      {isHidden ? (
+        <div className="text-center py-16 text-muted-foreground">
+          <Lock className="h-16 w-16 mx-auto mb-4 opacity-50" />
+          <p className="text-lg">This profile is private</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {profile.isOwn && profile.isPrivate && (
+            <Alert>
+              <Lock className="h-4 w-4" />
+              <AlertDescription>
+                Your profile is private, so only you can see this page. You can change this in{' '}
+                <Link to="/settings" className="underline">Settings</Link>.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Stats */}
+          {profile.stats && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <StatCard icon={<BookCheck className="h-5 w-5 text-primary" />} label="Books Read" value={profile.stats.booksRead} />
+              <StatCard icon={<BookOpen className="h-5 w-5 text-primary" />} label="Reading Now" value={profile.stats.currentlyReading} />
+              <StatCard icon={<MessageSquare className="h-5 w-5 text-primary" />} label="Reviews" value={profile.stats.reviewCount} />
+              <StatCard icon={<Star className="h-5 w-5 text-yellow-400" />} label="Avg Rating" value={profile.stats.averageRating ?? '—'} />
+            </div>
+          )}
+
+          {/* Currently Reading */}
+          {profile.currentlyReading && profile.currentlyReading.length > 0 && (
+            <section>
+              <h2 className="text-xl font-semibold mb-4">Currently Reading</h2>
+              <BookShelfRow items={profile.currentlyReading} />
+            </section>
+          )}
+
+          {/* Public Shelves */}
+          {profile.shelves && profile.shelves.length > 0 && (
+            <section className="space-y-6">
+              <h2 className="text-xl font-semibold">Shelves</h2>
+              {profile.shelves.map((shelf) => (
+                <div key={shelf.id}>
+                  <h3 className="font-medium mb-3">
+                    {shelf.name}
+                    <span className="text-sm text-muted-foreground ml-2">{shelf.itemCount}</span>
+                  </h3>
+                  {shelf.items.length > 0 ? (
+                    <BookShelfRow items={shelf.items} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No books on this shelf yet.</p>
+                  )}
+                </div>
+              ))}
+            </section>
+          )}
+
+          {/* Reviews */}
+          <section>
+            <h2 className="text-xl font-semibold mb-4">Reviews</h2>
+            {!profile.reviews || profile.reviews.length === 0 ? (
+              <p className="text-muted-foreground">No reviews yet.</p>
+            ) : (
+              <div className="space-y-4">
+                {profile.reviews.map((review) => (
+                  <ProfileReviewCard key={review.id} review={review} />
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StatCard({ icon, label, value }: { icon: React.ReactNode; label: string; value: number | string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{label}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-2">
+          {icon}
+          <span className="text-2xl font-bold">{typeof value === 'number' ? value.toLocaleString() : value}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function BookShelfRow({ items }: { items: LibraryItem[] }) {
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {items.map((item) => (
+        <Link key={item.id} to={`/book${item.workKey}`} className="group shrink-0 w-24">
+          <div className="w-24 h-36 bg-muted rounded-md overflow-hidden shadow-md group-hover:shadow-lg transition-shadow">
+            {item.coverId ? (
+              <img
+                src={`https://covers.openlibrary.org/b/id/${item.coverId}-M.jpg`}
+                alt={item.title}
+                className="w-full h-full object-cover"
+                loading="lazy"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-muted-foreground bg-secondary">
+                <Image className="h-8 w-8" />
+              </div>
+            )}
+          </div>
+          <p className="text-xs font-medium mt-2 line-clamp-2 group-hover:text-primary transition-colors">
+            {item.title}
+          </p>
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+function ProfileReviewCard({ review }: { review: Review }) {
+  const [isRevealed, setIsRevealed] = useState(false);
+  const showContent = !review.hasSpoilers || isRevealed;
+
+  return (
+    <div className="bg-card rounded-lg p-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Link to={`/book${review.workKey}`} className="font-medium hover:text-primary transition-colors">
+            {review.bookTitle}
+          </Link>
+          <div className="flex items-center gap-2 mt-1">
+            <StarRating rating={review.rating} size="sm" />
+            <span className="text-xs text-muted-foreground">
+              {new Date(review.createdAt).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </span>
+          </div>
+        </div>
+        {review.hasSpoilers && (
+          <Badge variant="outline" className="text-yellow-500 border-yellow-500/50">
+            Spoilers
+          </Badge>
+        )}
+      </div>
+      <div className="mt-3">
+        {showContent ? (
+          <ReviewContent content={review.content} />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsRevealed(true)}
+            className="w-full bg-secondary/50 rounded-lg p-4 text-center text-muted-foreground hover:bg-secondary transition-colors"
+          >
+            <Eye className="h-5 w-5 mx-auto mb-1" />
+            This review contains spoilers. Click to reveal.
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
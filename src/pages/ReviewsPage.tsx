@@ -1,11 +1,24 @@
+import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { api } from '../api';
 import { useTitle } from '@/hooks/use-title';
+import { useReviewDrafts } from '@/hooks/use-review-drafts';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,8 +31,12 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { StarRating } from '../components/StarRating';
-import { Image, Trash2, Edit, MessageSquare } from 'lucide-react';
-import type { Review } from '../types';
+import { ReviewContent } from '../components/ReviewContent';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { Image, Trash2, Edit, MessageSquare, FilePen, Loader2, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import type { Review, ReviewDraft } from '../types';
 
 const statusVariants: Record<string, 'default' | 'secondary' | 'destructive'> = {
   approved: 'default',
@@ -30,6 +47,7 @@ const statusVariants: Record<string, 'default' | 'secondary' | 'destructive'> =
 export function ReviewsPage() {
   useTitle('My Reviews');
   const queryClient = useQueryClient();
+  const { drafts, discardDraft } = useReviewDrafts();
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['userReviews'],
@@ -47,6 +65,24 @@ export function ReviewsPage() {
     <div className="max-w-4xl mx-auto px-4 py-8">
       <h1 className="text-3xl font-bold mb-6">My Reviews</h1>
 
+      {drafts.length > 0 && (
+        <section className="mb-8">
+          <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+            <FilePen className="h-5 w-5" />
+            Drafts ({drafts.length})
+          </h2>
+          <div className="space-y-3">
+            {drafts.map((draft) => (
+              <DraftCard
+                key={draft.workKey}
+                draft={draft}
+                onDiscard={() => discardDraft(draft.workKey)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
       {isLoading && (
         <div className="space-y-4">
           {Array.from({ length: 3 }).map((_, i) => (
@@ -161,9 +197,7 @@ function ReviewCard({
               Contains Spoilers
             </Badge>
           )}
-          <p className="text-sm text-foreground whitespace-pre-wrap">
-            {review.content}
-          </p>
+          <ReviewContent content={review.content} revealSpoilers className="text-sm text-foreground" />
         </div>
 
         {/* Footer */}
@@ -211,11 +245,144 @@ function ReviewCard({
           </p>
         )}
         {review.status === 'rejected' && (
-          <p className="mt-3 text-xs text-destructive bg-destructive/10 p-2 rounded">
-            Your review was not approved. You may edit and resubmit it.
-          </p>
+          <div className="mt-3 text-xs text-destructive bg-destructive/10 p-3 rounded flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex-1">
+              <p className="font-medium">Your review was not approved.</p>
+              {review.rejectionReason ? (
+                <p className="mt-1 whitespace-pre-wrap">Moderator's note: {review.rejectionReason}</p>
+              ) : (
+                <p className="mt-1">You may edit and resubmit it.</p>
+              )}
+            </div>
+            <ResubmitReviewDialog review={review} />
+          </div>
         )}
       </CardContent>
     </Card>
   );
 }
+
+function DraftCard({ draft, onDiscard }: { draft: ReviewDraft; onDiscard: () => void }) {
+  return (
+    <div className="p-4 border border-dashed rounded-lg flex gap-4">
+      <Link to={`/book${draft.workKey}`} className="shrink-0">
+        <div className="w-10 h-14 bg-muted rounded overflow-hidden">
+          {draft.coverId ? (
+            <img
+              src={`https://covers.openlibrary.org/b/id/${draft.coverId}-S.jpg`}
+              alt={draft.bookTitle}
+              className="w-full h-full object-cover"
+              loading="lazy"
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+              <Image className="h-3 w-3" />
+            </div>
+          )}
+        </div>
+      </Link>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <Link to={`/book${draft.workKey}`} className="font-medium hover:text-primary transition-colors line-clamp-1">
+            {draft.bookTitle}
+          </Link>
+          <StarRating rating={draft.rating} size="sm" />
+        </div>
+        <p className="text-sm text-muted-foreground line-clamp-2 mt-1">{draft.content}</p>
+        <p className="text-xs text-muted-foreground mt-1">
+          Last edited {formatDistanceToNow(new Date(draft.updatedAt), { addSuffix: true })}
+        </p>
+      </div>
+      <div className="flex flex-col sm:flex-row items-end sm:items-start gap-2">
+        <Button size="sm" asChild>
+          <Link to={`/book${draft.workKey}`}>
+            <Edit className="h-4 w-4 mr-2" />
+            Continue
+          </Link>
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onDiscard}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ResubmitReviewDialog({ review }: { review: Review }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [rating, setRating] = useState(review.rating);
+  const [content, setContent] = useState(review.content);
+  const [hasSpoilers, setHasSpoilers] = useState(review.hasSpoilers);
+
+  const resubmitMutation = useMutation({
+    mutationFn: () => api.updateReview(review.id, { rating, content, hasSpoilers }),
+    onSuccess: () => {
+      toast.success('Your review has been resubmitted for approval.');
+      queryClient.invalidateQueries({ queryKey: ['userReviews'] });
+      queryClient.invalidateQueries({ queryKey: ['book'] });
+      setOpen(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) {
+          setRating(review.rating);
+          setContent(review.content);
+          setHasSpoilers(review.hasSpoilers);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="shrink-0 text-foreground">
+          <Edit className="h-4 w-4 mr-2" />
+          Edit & Resubmit
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit your review of {review.bookTitle}</DialogTitle>
+          {review.rejectionReason && (
+            <DialogDescription className="text-destructive whitespace-pre-wrap">
+              {review.rejectionReason}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="mb-2 block text-sm font-medium">Your Rating</Label>
+            <StarRating rating={rating} size="lg" interactive onChange={setRating} />
+          </div>
+          <MarkdownEditor id={`resubmit-${review.id}`} value={content} onChange={setContent} maxLength={5000} />
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`resubmit-spoilers-${review.id}`}
+              checked={hasSpoilers}
+              onCheckedChange={(checked) => setHasSpoilers(!!checked)}
+            />
+            <Label htmlFor={`resubmit-spoilers-${review.id}`} className="cursor-pointer text-sm">
+              This review contains spoilers
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => resubmitMutation.mutate()} disabled={!content.trim() || resubmitMutation.isPending}>
+            {resubmitMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Resubmit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
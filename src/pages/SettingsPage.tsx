@@ -1,9 +1,12 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAuth } from '../hooks/use-auth';
 import { authClient } from '../lib/auth-client';
+import { GoodreadsImportSection } from '../components/GoodreadsImport';
+import { DataExportSection } from '../components/DataExport';
 import { useTitle } from '@/hooks/use-title';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,13 +14,16 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Switch } from '@/components/ui/switch';
 import { 
   User, 
   Shield, 
   Smartphone, 
   Laptop, 
   Loader2,
-  AlertCircle
+  AlertCircle,
+  Lock,
+  ExternalLink
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { UAParser } from 'ua-parser-js';
@@ -59,6 +65,7 @@ interface User {
   email: string;
   username: string;
   image?: string;
+  isPrivate?: boolean;
 }
 
 export function SettingsPage() {
@@ -96,11 +103,14 @@ export function SettingsPage() {
 
       <div className="space-y-6">
         <ProfileSection user={user} />
+        <PrivacySection user={user} />
         <PasswordSection />
         <SessionsSection 
           sessions={sessions} 
           isLoading={isLoadingSessions} 
         />
+        <GoodreadsImportSection />
+        <DataExportSection />
       </div>
     </div>
   );
@@ -191,7 +201,70 @@ function ProfileSection({ user }: { user: User | null }) {
   );
 }
 
-// --- Section 2: Password ---
+// --- Section 2: Privacy ---
+function PrivacySection({ user }: { user: User | null }) {
+  const [isPrivate, setIsPrivate] = useState(user?.isPrivate ?? false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const onToggle = async (checked: boolean) => {
+    setIsUpdating(true);
+    setIsPrivate(checked);
+    try {
+      const res = await authClient.updateUser({
+        isPrivate: checked,
+      } as Parameters<typeof authClient.updateUser>[0]);
+
+      if (res.error) {
+        throw new Error(res.error.message);
+      }
+
+      toast.success(checked ? 'Your profile is now private' : 'Your profile is now public');
+    } catch (error) {
+      setIsPrivate(!checked);
+      toast.error(error instanceof Error ? error.message : 'Failed to update privacy settings');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Privacy
+        </CardTitle>
+        <CardDescription>Control who can see your public profile.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="private-profile">Private profile</Label>
+            <p className="text-xs text-muted-foreground">
+              Hide your reviews, shelves, currently-reading list and stats from other readers.
+            </p>
+          </div>
+          <Switch
+            id="private-profile"
+            checked={isPrivate}
+            onCheckedChange={onToggle}
+            disabled={isUpdating}
+          />
+        </div>
+        {user?.username && (
+          <Button variant="link" className="p-0 h-auto" asChild>
+            <Link to={`/u/${user.username}`}>
+              View your profile
+              <ExternalLink className="ml-1 h-3.5 w-3.5" />
+            </Link>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// --- Section 3: Password ---
 function PasswordSection() {
   const [isUpdating, setIsUpdating] = useState(false);
   const {
@@ -291,7 +364,7 @@ function PasswordSection() {
   );
 }
 
-// --- Section 3: Sessions ---
+// --- Section 4: Sessions ---
 function SessionsSection({ 
   sessions, 
   isLoading, 
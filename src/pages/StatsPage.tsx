@@ -0,0 +1,220 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { api } from '../api';
+import { useTitle } from '@/hooks/use-title';
+import { fetchAllLibraryItems } from '@/lib/library';
+import { computeReadingStats, type CountEntry } from '@/lib/stats';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { BarChart } from '../components/BarChart';
+import { StarRating } from '../components/StarRating';
+import { BarChart3, BookCheck, Clock, Star } from 'lucide-react';
+import type { RatingBreakdown } from '../types';
+
+export function StatsPage() {
+  useTitle('Reading Stats');
+
+  const { data: items, isLoading: itemsLoading, error: itemsError } = useQuery({
+    queryKey: ['library', 'all-items'],
+    queryFn: () => fetchAllLibraryItems(),
+  });
+
+  const { data: reviewsData, isLoading: reviewsLoading, error: reviewsError } = useQuery({
+    queryKey: ['userReviews'],
+    queryFn: () => api.getUserReviews(),
+  });
+
+  if (itemsLoading || reviewsLoading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <Skeleton className="h-10 w-48" />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (itemsError || reviewsError || !items || !reviewsData) {
+    return (
+      <div className="text-center py-16 text-destructive">
+        <p>Error loading reading stats. Please try again.</p>
+      </div>
+    );
+  }
+
+  const stats = computeReadingStats(items, reviewsData.data.reviews);
+
+  if (items.length === 0) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-6">Reading Stats</h1>
+        <div className="text-center py-16 text-muted-foreground">
+          <BarChart3 className="h-16 w-16 mx-auto mb-4 opacity-50" />
+          <p className="text-lg mb-4">Add books to your library to see your stats</p>
+          <Button asChild>
+            <Link to="/search">Find Books to Add</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Reading Stats</h1>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        <SummaryCard
+          title="Books Read"
+          icon={<BookCheck className="h-5 w-5 text-primary" />}
+          value={stats.totalRead.toLocaleString()}
+        />
+        <SummaryCard
+          title="Average Rating Given"
+          icon={<Star className="h-5 w-5 text-yellow-400" />}
+          value={stats.averageRating !== null ? stats.averageRating.toFixed(1) : '—'}
+          detail={`${stats.ratingCount} rating${stats.ratingCount !== 1 ? 's' : ''}`}
+        />
+        <SummaryCard
+          title="Average Time to Finish"
+          icon={<Clock className="h-5 w-5 text-primary" />}
+          value={stats.averageDaysToFinish !== null ? `${stats.averageDaysToFinish} days` : '—'}
+          detail={
+            stats.fastestFinish
+              ? `Fastest: ${stats.fastestFinish.item.title} (${stats.fastestFinish.days} day${stats.fastestFinish.days !== 1 ? 's' : ''})`
+              : 'Add start and finish dates to track this'
+          }
+        />
+      </div>
+
+      {/* Books per month */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Books Finished per Month</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BarChart data={stats.booksPerMonth} height={200} />
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Rating distribution */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Rating Distribution</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {stats.ratingCount === 0 ? (
+              <p className="text-sm text-muted-foreground">You haven't rated any books yet.</p>
+            ) : (
+              [5, 4, 3, 2, 1].map((stars) => {
+                const count = stats.ratingBreakdown[stars as keyof RatingBreakdown];
+                const percentage = Math.round((count / stats.ratingCount) * 100);
+                return (
+                  <div key={stars} className="flex items-center gap-2">
+                    <span className="w-20 shrink-0">
+                      <StarRating rating={stars} size="sm" />
+                    </span>
+                    <Progress value={percentage} className="h-2 flex-1 min-w-0" />
+                    <span className="text-sm text-muted-foreground w-20 text-right whitespace-nowrap shrink-0">
+                      {count} ({percentage}%)
+                    </span>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Top authors */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Authors</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RankedList entries={stats.topAuthors} emptyMessage="Finish some books to see your top authors." />
+          </CardContent>
+        </Card>
+
+        {/* Top subjects */}
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Top Subjects</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stats.topSubjects.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No subjects found for the books you've read.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {stats.topSubjects.map((subject) => (
+                  <Link
+                    key={subject.label}
+                    to={`/search?q=${encodeURIComponent(subject.label)}`}
+                    className="text-sm px-3 py-1 rounded-full bg-secondary hover:bg-secondary/80 transition-colors"
+                  >
+                    {subject.label}
+                    <span className="text-muted-foreground ml-1.5">{subject.count}</span>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function SummaryCard({
+  title,
+  icon,
+  value,
+  detail,
+}: {
+  title: string;
+  icon: React.ReactNode;
+  value: string;
+  detail?: string;
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-2">
+          {icon}
+          <span className="text-3xl font-bold">{value}</span>
+        </div>
+        {detail && <p className="text-xs text-muted-foreground mt-1 line-clamp-1">{detail}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RankedList({ entries, emptyMessage }: { entries: CountEntry[]; emptyMessage: string }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  const max = entries[0].count;
+  return (
+    <div className="space-y-2">
+      {entries.map((entry, i) => (
+        <div key={entry.label} className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground w-4 shrink-0">{i + 1}</span>
+          <span className="text-sm w-40 truncate shrink-0">{entry.label}</span>
+          <Progress value={(entry.count / max) * 100} className="h-2 flex-1 min-w-0" />
+          <span className="text-sm text-muted-foreground w-8 text-right shrink-0">{entry.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -5,6 +5,36 @@ export interface User {
   email: string;
   username: string;
   role: 'user' | 'admin';
+  isPrivate?: boolean;
+}
+
+export interface ProfileStats {
+  booksRead: number;
+  currentlyReading: number;
+  reviewCount: number;
+  averageRating: string | null;
+}
+
+export interface UserSummary {
+  id: string;
+  username: string;
+  name: string;
+}
+
+// Private profiles only expose the identity fields to anyone but their owner
+export interface UserProfile {
+  username: string;
+  name: string;
+  joinedAt: string;
+  isPrivate: boolean;
+  isOwn: boolean;
+  isFollowing: boolean;
+  followerCount: number;
+  followingCount: number;
+  stats?: ProfileStats;
+  currentlyReading?: LibraryItem[];
+  shelves?: Array<Shelf & { items: LibraryItem[] }>;
+  reviews?: Review[];
 }
 
 // Book types
@@ -80,10 +110,52 @@ export interface LibraryItem {
   authorName?: string | null;
   coverId?: number | null;
   status: LibraryStatus;
+  currentPage?: number | null;
+  totalPages?: number | null;
+  progressPercent?: number | null;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  readCount?: number;
+  shelfIds?: string[];
+  subjects?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A single read-through of a library item; re-reads add further sessions
+export interface ReadingSession {
+  id: string;
+  libraryItemId: string;
+  startedAt: string | null;
+  finishedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ReadingProgressUpdate {
+  currentPage?: number;
+  totalPages?: number;
+  percent?: number;
+}
+
+// User-defined shelves; a library item can sit on any number of them
+export interface Shelf {
+  id: string;
+  userId: string;
+  name: string;
+  position: number;
+  isPublic: boolean;
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReadingGoal {
+  year: number;
+  target: number;
+  updatedAt: string;
+}
+
 export interface LibraryResponse {
   success: boolean;
   data: {
@@ -100,13 +172,20 @@ export interface Review {
   userId: string;
   workKey: string;
   bookTitle: string;
-  rating: number;
+  rating: number; // 0.5 to 5 in half-star steps
   content: string;
   hasSpoilers: boolean;
   containsSpoilers?: boolean; // Alias for hasSpoilers
   status: ReviewStatus;
   coverId?: number | null;
   username?: string;
+  likeCount?: number;
+  commentCount?: number;
+  editedAt?: string | null;
+  revisionCount?: number;
+  rejectionReason?: string | null; // Shown to the author
+  ruleMatches?: RuleMatch[]; // Admin responses only
+  moderatorNoteCount?: number; // Admin responses only
   createdAt: string;
   updatedAt: string;
 }
@@ -121,13 +200,238 @@ export interface ReviewWithUser {
   userId: string;
   isOwn?: boolean;
   status?: ReviewStatus;
+  likeCount?: number;
+  commentCount?: number;
+  isLiked?: boolean;
+  isReported?: boolean;
+  editedAt?: string | null;
+}
+
+// One saved version of a review, oldest first: the original, then one per edit, so the newest matches the live review
+export interface ReviewRevision {
+  id: string;
+  reviewId: string;
+  rating: number;
+  content: string;
+  hasSpoilers: boolean;
+  statusAfterEdit: ReviewStatus;
+  createdAt: string;
+}
+
+// Review reports
+export type ReportReason = 'spam' | 'harassment' | 'hate_speech' | 'spoilers' | 'off_topic' | 'other';
+
+export interface ReviewReport {
+  id: string;
+  reviewId: string;
+  reason: ReportReason;
+  details?: string | null;
+  reporterUsername: string;
+  createdAt: string;
+}
+
+// Open reports are grouped per review so a pile-on shows up as a single queue item
+export interface ReportedReview {
+  review: PendingReview;
+  reports: ReviewReport[];
+}
+
+export interface RejectionTemplate {
+  id: string;
+  label: string;
+  message: string;
+}
+
+// Internal to moderators; never returned to review authors
+export interface ModeratorNote {
+  id: string;
+  reviewId: string;
+  authorName: string;
+  content: string;
+  createdAt: string;
+}
+
+// Audit log, written server-side for every moderation and user-management action.
+// Impersonation is logged from the auth hooks when it starts and stops, targeting the impersonated user.
+export type AuditAction =
+  | 'review.approve'
+  | 'review.reject'
+  | 'report.dismiss'
+  | 'report.hide'
+  | 'comment.approve'
+  | 'comment.reject'
+  | 'user.ban'
+  | 'user.unban'
+  | 'user.set_role'
+  | 'user.remove'
+  | 'user.impersonate'
+  | 'user.stop_impersonating';
+
+export type AuditTargetType = 'review' | 'comment' | 'user';
+
+export interface AuditLogEntry {
+  id: string;
+  actorId: string;
+  actorName: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  // Snapshot of the target's name or book title at the time, so removed targets stay readable
+  targetLabel: string;
+  reason: string | null;
+  createdAt: string;
 }
 
+// User record from the Better Auth admin plugin (admin.listUsers)
+export interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+  username: string;
+  role: string;
+  banned: boolean | null;
+  banReason: string | null;
+  banExpires: string | null;
+  createdAt: string;
+}
+
+// App-side data about a user that Better Auth doesn't know about
+export interface AdminUserDetail {
+  libraryCount: number;
+  reviews: Review[];
+}
+
+// Admin analytics
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+export interface AnalyticsBucket {
+  date: string; // Start of the bucket, yyyy-MM-dd
+  signups: number;
+  reviewsSubmitted: number;
+  reviewsApproved: number;
+  reviewsRejected: number;
+  // Median hours from submission to the moderation decision; null when nothing was moderated
+  medianTurnaroundHours: number | null;
+  // Averaged per day for week and month buckets
+  activeUsers: number;
+}
+
+export interface AnalyticsBook {
+  workKey: string;
+  title: string;
+  coverId?: number | null;
+  count: number;
+}
+
+export interface AdminAnalytics {
+  interval: AnalyticsInterval;
+  series: AnalyticsBucket[];
+  // Computed over the whole range rather than from the buckets
+  summary: { medianTurnaroundHours: number | null; averageDailyActiveUsers: number };
+  mostReviewed: AnalyticsBook[];
+  mostShelved: AnalyticsBook[];
+}
+
+// expiresAt is null for permanent bans and for unban entries
+export interface BanHistoryEntry {
+  id: string;
+  userId: string;
+  action: 'ban' | 'unban';
+  reason: string | null;
+  expiresAt: string | null;
+  actorName: string;
+  createdAt: string;
+}
+
+// 'substantive' re-queues approved reviews whose text changed by at least substantiveEditThreshold percent
+export type ReapprovalPolicy = 'always' | 'substantive' | 'never';
+
+export interface ModerationSettings {
+  reapprovalPolicy: ReapprovalPolicy;
+  substantiveEditThreshold: number;
+  // New reviews that trip no content rule skip the queue when their author is trusted
+  autoApproveTrusted: boolean;
+  trustedMinApprovedReviews: number;
+}
+
+// Content filter rules run server-side on every submitted review
+export type ContentRuleType = 'banned_words' | 'regex' | 'links' | 'min_length' | 'new_account';
+
+export interface ContentRule {
+  id: string;
+  name: string;
+  type: ContentRuleType;
+  enabled: boolean;
+  words?: string[]; // banned_words, matched case-insensitively on word boundaries
+  pattern?: string; // regex, JavaScript syntax, case-insensitive
+  minLength?: number; // min_length, in characters
+  maxAccountAgeDays?: number; // new_account, flags authors whose account is younger than this
+}
+
+export type ContentRuleInput = Omit<ContentRule, 'id'>;
+
+// ranges are [start, end) offsets into the review content; empty for rules that aren't about the text
+export interface RuleMatch {
+  ruleId: string;
+  ruleName: string;
+  type: ContentRuleType;
+  ranges: [number, number][];
+}
+
+// workKey is stored in the /works/OL...W form so drafts can link straight to the book
+export interface ReviewDraft {
+  workKey: string;
+  bookTitle: string;
+  coverId?: number | null;
+  rating: number;
+  content: string;
+  hasSpoilers: boolean;
+  updatedAt: string;
+}
+
+export type ReviewSort = 'newest' | 'oldest' | 'highest' | 'lowest' | 'most_liked';
+
 export interface PendingReview extends Review {
   username: string;
   userEmail: string;
 }
 
+// Comments share the review moderation pipeline; replies point at their parent via parentId
+export interface ReviewComment {
+  id: string;
+  reviewId: string;
+  parentId: string | null;
+  userId: string;
+  username: string;
+  content: string;
+  status: ReviewStatus;
+  isOwn?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminComment extends ReviewComment {
+  workKey: string;
+  bookTitle: string;
+  coverId?: number | null;
+}
+
+// Activity feed types
+export type ActivityType = 'status_change' | 'review' | 'finished';
+
+export interface ActivityItem {
+  id: string;
+  type: ActivityType;
+  user: UserSummary;
+  workKey: string;
+  bookTitle: string;
+  coverId?: number | null;
+  status?: LibraryStatus;
+  rating?: number;
+  reviewId?: string;
+  createdAt: string;
+}
+
 // Pagination
 export interface Pagination {
   total: number;